@@ -0,0 +1,92 @@
+import { useId, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  getApiBaseUrl,
+  getRuntimeConfig,
+  loadApiBaseUrlOverride,
+  saveApiBaseUrlOverride,
+} from '@/lib/runtime-config'
+
+const TARGET_LABELS = {
+  backend: 'Timelapse backend',
+  presigned: 'Object storage',
+  webdav: 'WebDAV',
+};
+
+// Backend the device talks to, with a per-device override of the deployment's URL
+export const BackendSettings = () => {
+  const idPrefix = useId()
+  const [override, setOverride] = useState(loadApiBaseUrlOverride)
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const { apiBaseUrl, uploadTargets } = getRuntimeConfig();
+  const source = override ? 'set on this device' : apiBaseUrl ? 'from config.json' : 'from the build';
+
+  const applyOverride = (url: string | null) => {
+    saveApiBaseUrlOverride(url);
+    setOverride(loadApiBaseUrlOverride());
+    setEditing(false);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    try {
+      const url = new URL(draft.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error('Use an http or https URL');
+      }
+      applyOverride(url.toString());
+    } catch (err) {
+      setError(err instanceof TypeError ? 'Not a valid URL' : (err as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 w-full text-sm text-muted-foreground">
+      {editing ? (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}-api-base-url`} className="min-w-20">Backend:</Label>
+          <Input
+            id={`${idPrefix}-api-base-url`}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="https://timelapse.example.com/api"
+            className="flex-1"
+          />
+          <Button size="sm" onClick={handleSave} disabled={!draft.trim()}>
+            Save
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setEditing(false)}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <span className="flex-1">
+            Backend {getApiBaseUrl() || '(not configured)'} ({source}), uploading to {uploadTargets.map(target => `${target.id} (${TARGET_LABELS[target.type]})`).join(', ')}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setDraft(getApiBaseUrl());
+              setEditing(true);
+            }}
+          >
+            Change
+          </Button>
+          {override && (
+            <Button variant="outline" size="sm" onClick={() => applyOverride(null)}>
+              Use Default
+            </Button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-destructive">{error}</p>}
+    </div>
+  )
+}
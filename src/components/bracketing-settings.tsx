@@ -0,0 +1,110 @@
+import { useId } from 'react'
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import {
+  type BracketingSettings as BracketingOptions,
+  type BracketOutput,
+  BRACKET_FRAME_OPTIONS,
+  BRACKET_STEP_OPTIONS,
+  getBracketOffsets,
+} from '@/lib/bracketing'
+
+interface BracketingSettingsProps {
+  bracketing: BracketingOptions;
+  onBracketingChange: (bracketing: BracketingOptions) => void;
+  supported: boolean; // Whether the camera can change its exposure
+  disabled: boolean;
+}
+
+// Editor for exposure bracketing of each capture
+export const BracketingSettings = ({ bracketing, onBracketingChange, supported, disabled }: BracketingSettingsProps) => {
+  const idPrefix = useId() // Keeps element ids unique when several cameras are shown
+
+  const update = (changes: Partial<BracketingOptions>) => {
+    onBracketingChange({ ...bracketing, ...changes });
+  };
+
+  const offsets = getBracketOffsets(bracketing).map(offset => `${offset > 0 ? '+' : ''}${offset}`).join(', ');
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`${idPrefix}-bracketing-enabled`}
+          disabled={disabled || !supported}
+          checked={bracketing.enabled}
+          onCheckedChange={(checked: boolean) => update({ enabled: checked })}
+        />
+        <Label htmlFor={`${idPrefix}-bracketing-enabled`}>Bracket exposures for high-contrast scenes</Label>
+      </div>
+
+      {bracketing.enabled && (
+        <>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-bracketing-frames`} className="min-w-32">Frames:</Label>
+            <Select
+              disabled={disabled}
+              value={String(bracketing.frames)}
+              onValueChange={(value: string) => update({ frames: Number(value) })}
+            >
+              <SelectTrigger id={`${idPrefix}-bracketing-frames`} className="flex-1">
+                <SelectValue placeholder="Select frames" />
+              </SelectTrigger>
+              <SelectContent>
+                {BRACKET_FRAME_OPTIONS.map(frames => (
+                  <SelectItem key={frames} value={String(frames)}>{frames} exposures</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-bracketing-step`} className="min-w-32">Step:</Label>
+            <Select
+              disabled={disabled}
+              value={String(bracketing.stepEv)}
+              onValueChange={(value: string) => update({ stepEv: Number(value) })}
+            >
+              <SelectTrigger id={`${idPrefix}-bracketing-step`} className="flex-1">
+                <SelectValue placeholder="Select step" />
+              </SelectTrigger>
+              <SelectContent>
+                {BRACKET_STEP_OPTIONS.map(step => (
+                  <SelectItem key={step} value={String(step)}>{step} EV</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-bracketing-output`} className="min-w-32">Result:</Label>
+            <Select
+              disabled={disabled}
+              value={bracketing.output}
+              onValueChange={(value: BracketOutput) => update({ output: value })}
+            >
+              <SelectTrigger id={`${idPrefix}-bracketing-output`} className="flex-1">
+                <SelectValue placeholder="Select result" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Merge into one HDR frame</SelectItem>
+                <SelectItem value="group">Upload every exposure as a group</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="text-sm text-muted-foreground">
+            Exposures: {offsets} EV. Each capture takes a little longer while the camera adjusts between exposures.
+          </div>
+        </>
+      )}
+
+      {!supported && (
+        <div className="text-sm text-muted-foreground">
+          Bracketing needs a camera that reports exposure compensation or exposure time controls.
+        </div>
+      )}
+    </div>
+  )
+}
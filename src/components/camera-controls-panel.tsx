@@ -0,0 +1,203 @@
+import { useId } from 'react'
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import {
+  type CameraControls,
+  type ControlCapabilities,
+  type ControlMode,
+  type ControlRange,
+  hasAnyControl,
+} from '@/lib/camera-controls'
+
+interface RangeControlProps {
+  id: string;
+  label: string;
+  range: ControlRange;
+  value: number | null;
+  onChange: (value: number) => void;
+  disabled: boolean;
+  format?: (value: number) => string;
+}
+
+// Slider for a ranged camera control, starting at the low end when no value is set yet
+const RangeControl = ({ id, label, range, value, onChange, disabled, format = String }: RangeControlProps) => {
+  const current = Math.min(range.max, Math.max(range.min, value ?? range.min));
+  return (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={id} className="min-w-32">{label}</Label>
+      <div className="flex-1 flex items-center gap-2">
+        <Slider
+          id={id}
+          disabled={disabled}
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={[current]}
+          onValueChange={(values) => onChange(values[0])}
+          className="flex-1"
+        />
+        <span className="w-20 text-right">{format(Number(current.toFixed(2)))}</span>
+      </div>
+    </div>
+  )
+}
+
+interface ModeControlProps {
+  id: string;
+  label: string;
+  value: ControlMode;
+  onChange: (mode: ControlMode) => void;
+  disabled: boolean;
+}
+
+const ModeControl = ({ id, label, value, onChange, disabled }: ModeControlProps) => (
+  <div className="flex items-center gap-2">
+    <Label htmlFor={id} className="min-w-32">{label}</Label>
+    <Select disabled={disabled} value={value} onValueChange={(mode: ControlMode) => onChange(mode)}>
+      <SelectTrigger id={id} className="flex-1">
+        <SelectValue placeholder="Select mode" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="auto">Automatic</SelectItem>
+        <SelectItem value="manual">Manual</SelectItem>
+      </SelectContent>
+    </Select>
+  </div>
+)
+
+interface CameraControlsPanelProps {
+  capabilities: ControlCapabilities | null;
+  controls: CameraControls;
+  onControlsChange: (changes: Partial<CameraControls>) => void;
+  disabled: boolean;
+}
+
+// Exposure, focus, white balance, zoom and torch for the controls the camera supports
+export const CameraControlsPanel = ({ capabilities, controls, onControlsChange, disabled }: CameraControlsPanelProps) => {
+  const idPrefix = useId() // Keeps element ids unique when several cameras are shown
+
+  if (!capabilities || !hasAnyControl(capabilities)) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        This camera or browser does not offer manual controls. They appear here once the camera is on and reports them.
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {capabilities.exposureModes.includes('manual') && (
+        <ModeControl
+          id={`${idPrefix}-exposure-mode`}
+          label="Exposure:"
+          value={controls.exposureMode}
+          onChange={(mode) => onControlsChange({ exposureMode: mode })}
+          disabled={disabled}
+        />
+      )}
+      {controls.exposureMode === 'manual' && capabilities.exposureTime && (
+        <RangeControl
+          id={`${idPrefix}-exposure-time`}
+          label="Exposure time:"
+          range={capabilities.exposureTime}
+          value={controls.exposureTime}
+          onChange={(value) => onControlsChange({ exposureTime: value })}
+          disabled={disabled}
+          format={(value) => `${(value / 10).toFixed(1)} ms`}
+        />
+      )}
+      {capabilities.exposureCompensation && (
+        <RangeControl
+          id={`${idPrefix}-exposure-compensation`}
+          label="Compensation:"
+          range={capabilities.exposureCompensation}
+          value={controls.exposureCompensation ?? 0}
+          onChange={(value) => onControlsChange({ exposureCompensation: value })}
+          disabled={disabled}
+          format={(value) => `${value > 0 ? '+' : ''}${value} EV`}
+        />
+      )}
+
+      {capabilities.focusModes.includes('manual') && (
+        <ModeControl
+          id={`${idPrefix}-focus-mode`}
+          label="Focus:"
+          value={controls.focusMode}
+          onChange={(mode) => onControlsChange({ focusMode: mode })}
+          disabled={disabled}
+        />
+      )}
+      {controls.focusMode === 'manual' && capabilities.focusDistance && (
+        <RangeControl
+          id={`${idPrefix}-focus-distance`}
+          label="Focus distance:"
+          range={capabilities.focusDistance}
+          value={controls.focusDistance}
+          onChange={(value) => onControlsChange({ focusDistance: value })}
+          disabled={disabled}
+        />
+      )}
+
+      {capabilities.whiteBalanceModes.includes('manual') && (
+        <ModeControl
+          id={`${idPrefix}-white-balance-mode`}
+          label="White balance:"
+          value={controls.whiteBalanceMode}
+          onChange={(mode) => onControlsChange({ whiteBalanceMode: mode })}
+          disabled={disabled}
+        />
+      )}
+      {controls.whiteBalanceMode === 'manual' && capabilities.colorTemperature && (
+        <RangeControl
+          id={`${idPrefix}-color-temperature`}
+          label="Temperature:"
+          range={capabilities.colorTemperature}
+          value={controls.colorTemperature}
+          onChange={(value) => onControlsChange({ colorTemperature: value })}
+          disabled={disabled}
+          format={(value) => `${Math.round(value)} K`}
+        />
+      )}
+
+      {capabilities.zoom && (
+        <RangeControl
+          id={`${idPrefix}-zoom`}
+          label="Zoom:"
+          range={capabilities.zoom}
+          value={controls.zoom}
+          onChange={(value) => onControlsChange({ zoom: value })}
+          disabled={disabled}
+          format={(value) => `${value}x`}
+        />
+      )}
+
+      {capabilities.torch && (
+        <div className="flex items-center space-x-2">
+          <Switch
+            id={`${idPrefix}-torch`}
+            disabled={disabled}
+            checked={controls.torch}
+            onCheckedChange={(checked: boolean) => onControlsChange({ torch: checked })}
+          />
+          <Label htmlFor={`${idPrefix}-torch`}>Torch</Label>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`${idPrefix}-lock-controls`}
+          disabled={disabled}
+          checked={controls.lockDuringCapture}
+          onCheckedChange={(checked: boolean) => onControlsChange({ lockDuringCapture: checked })}
+        />
+        <Label htmlFor={`${idPrefix}-lock-controls`}>Lock automatic exposure, focus and white balance while capturing</Label>
+      </div>
+
+      <div className="text-sm text-muted-foreground">
+        Locking keeps the values the camera settled on when capture starts, so brightness does not flicker between frames.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,1831 @@
+import { useState, useRef, useEffect, useId } from 'react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import { useCameraDevices } from '@/hooks/use-camera-devices'
+import { useStreamWatchdog } from '@/hooks/use-stream-watchdog'
+import { uploadCapture } from '@/lib/upload'
+import type { CapturePayload } from '@/lib/outbox'
+import type { CameraHealth } from '@/lib/heartbeat'
+import {
+  type RecoveryStatus,
+  EMPTY_RECOVERY_STATUS,
+  RECOVERY_RESET_MS,
+  getRecoveryDelay,
+  isStreamLive,
+} from '@/lib/watchdog'
+import { canvasToBlob } from '@/lib/image'
+import {
+  type OutputFormat,
+  type OutputSettings,
+  OUTPUT_FORMATS,
+  TARGET_WIDTH_PRESETS,
+  isLossless,
+  getOutputSize,
+  estimateFrameBytes,
+  formatBytes,
+} from '@/lib/output-settings'
+import { type CaptureSchedule, isWithinSchedule, getAverageDailyMinutes } from '@/lib/schedule'
+import { ScheduleSettings } from '@/components/schedule-settings'
+import { RegionOverlay } from '@/components/region-overlay'
+import { CameraControlsPanel } from '@/components/camera-controls-panel'
+import { type CaptureMethod, isStillCaptureSupported, takeFullResolutionPhoto } from '@/lib/still-capture'
+import { BracketingSettings } from '@/components/bracketing-settings'
+import {
+  type BracketingSettings as BracketingOptions,
+  type BracketTag,
+  BRACKET_SETTLE_MS,
+  getBracketOffsets,
+  getBracketControls,
+  canBracket,
+  mergeFrames,
+} from '@/lib/bracketing'
+import {
+  type CameraControls,
+  type ControlCapabilities,
+  getControlCapabilities,
+  applyCameraControls,
+  getLockedControls,
+  getCurrentControlValue,
+} from '@/lib/camera-controls'
+import { WatermarkSettings } from '@/components/watermark-settings'
+import { WatermarkPreview } from '@/components/watermark-preview'
+import { type WatermarkSettings as WatermarkOptions, drawWatermark, loadImage } from '@/lib/watermark'
+import {
+  type FrameTransform,
+  type Rotation,
+  FULL_FRAME_REGION,
+  ROTATIONS,
+  isFullFrame,
+  getTransformedSize,
+  getCssTransform,
+  drawTransformed,
+} from '@/lib/transform'
+import { CaptureHistory } from '@/components/capture-history'
+import { SessionPanel } from '@/components/session-panel'
+import { type MetadataSettings, collectMetadata, refreshLocation } from '@/lib/capture-metadata'
+import { embedExif } from '@/lib/exif'
+import {
+  type SessionDetails,
+  loadSessions,
+  startSession,
+  updateSessionDetails,
+  endSession,
+  nextSessionFrame,
+  recordSessionOutcome,
+  syncSession,
+  syncPendingSessions,
+} from '@/lib/sessions'
+import { VideoExport } from '@/components/video-export'
+import { addFrame } from '@/lib/frame-history'
+import {
+  type FrameIssue,
+  type FrameIssueCounts,
+  type FrameQualitySettings,
+  type QualityAction,
+  EMPTY_ISSUE_COUNTS,
+  ISSUE_LABELS,
+  QUALITY_ACTIONS,
+  DUPLICATE_OPTIONS,
+  analyzeFrame,
+  getFrameIssues,
+} from '@/lib/frame-quality'
+import {
+  type IntervalUnit,
+  toIntervalMs,
+  loadCameraSettings,
+  saveCameraSettings,
+  loadCapturingState,
+  saveCapturingState,
+} from '@/lib/camera-settings'
+import {
+  type CaptureMode,
+  type MotionSettings,
+  MOTION_SAMPLE_INTERVAL_MS,
+  MAX_PRE_FRAMES,
+  MAX_POST_FRAMES,
+  createMotionDetector,
+  getTriggerLevel,
+} from '@/lib/motion'
+import {
+  type TimingMode,
+  type MissedSlotPolicy,
+  getLateTolerance,
+  getNextSlot,
+  getFirstSlotFrom,
+  getLatestSlot,
+} from '@/lib/capture-timing'
+import {
+  type CameraProfile,
+  DEFAULT_PROFILE,
+  RESOLUTION_PRESETS,
+  FRAME_RATE_PRESETS,
+  loadSelectedDeviceId,
+  saveSelectedDeviceId,
+  loadProfiles,
+  saveProfile,
+  buildVideoConstraints,
+} from '@/lib/camera-profiles'
+
+interface CameraStationProps {
+  cameraId: string;
+  onUploadFailed: (payload: CapturePayload, error: string) => Promise<void>;
+  onRemove?: () => void;
+  resumeCapture?: boolean; // Continue a running capture after the station was remounted with new settings
+  onHealthChange?: (health: CameraHealth) => void;
+}
+
+// One camera with its own preview, capture loop, schedule and settings
+export const CameraStation = ({ cameraId, onUploadFailed, onRemove, resumeCapture = false, onHealthChange }: CameraStationProps) => {
+  const idPrefix = useId() // Keeps element ids unique when several cameras are shown
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [capturing, setCapturing] = useState(false)
+  const capturingRef = useRef(false) // Use a ref to track capturing state for async operations
+  
+  // Settings restored from the previous session
+  const [savedSettings] = useState(() => loadCameraSettings(cameraId))
+  const resumePendingRef = useRef((savedSettings.autoResume || resumeCapture) && loadCapturingState(cameraId))
+  
+  // Enhanced interval settings
+  const [intervalValue, setIntervalValue] = useState(savedSettings.intervalValue)
+  const [intervalUnit, setIntervalUnit] = useState<IntervalUnit>(savedSettings.intervalUnit)
+  const [actualIntervalMs, setActualIntervalMs] = useState(() => toIntervalMs(savedSettings.intervalValue, savedSettings.intervalUnit)) // Actual interval in milliseconds
+  const [timingMode, setTimingMode] = useState<TimingMode>(savedSettings.timingMode)
+  const [missedSlotPolicy, setMissedSlotPolicy] = useState<MissedSlotPolicy>(savedSettings.missedSlotPolicy)
+  const [nextCaptureAt, setNextCaptureAt] = useState<number | null>(null)
+  const [autoResume, setAutoResume] = useState(savedSettings.autoResume)
+  
+  // Capture scheduling options
+  const [schedule, setSchedule] = useState<CaptureSchedule>(savedSettings.schedule)
+  const [powerSaving, setPowerSaving] = useState(savedSettings.powerSaving)
+  
+  // Encoding of captured frames
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>(savedSettings.outputSettings)
+  const [stillCapture, setStillCapture] = useState(savedSettings.stillCapture)
+  const [bracketing, setBracketing] = useState<BracketingOptions>(savedSettings.bracketing)
+  const [captureMetadata, setCaptureMetadata] = useState<MetadataSettings>(savedSettings.metadata)
+  
+  // Motion-triggered capture
+  const [captureMode, setCaptureMode] = useState<CaptureMode>(savedSettings.captureMode)
+  const [motion, setMotion] = useState<MotionSettings>(savedSettings.motion)
+  const [motionLevel, setMotionLevel] = useState<number | null>(null) // Fraction of the region changed in the last sample
+  const motionTimerRef = useRef<number | null>(null)
+  
+  // Quality checks on captured frames
+  const [frameQuality, setFrameQuality] = useState<FrameQualitySettings>(savedSettings.frameQuality)
+  const [frameIssues, setFrameIssues] = useState<FrameIssueCounts>(EMPTY_ISSUE_COUNTS)
+  const previousHashRef = useRef<bigint | null>(null) // Hash of the last checked frame, to spot a frozen stream
+  
+  // Overlay burned into captured frames
+  const [watermark, setWatermark] = useState<WatermarkOptions>(savedSettings.watermark)
+  const [logoImage, setLogoImage] = useState<HTMLImageElement | null>(null)
+  
+  // Orientation and crop of captured frames
+  const [transform, setTransform] = useState<FrameTransform>(savedSettings.transform)
+  const [editingCrop, setEditingCrop] = useState(false)
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null)
+  
+  // Manual camera controls, and the values they are frozen at while capturing
+  const [controls, setControls] = useState<CameraControls>(savedSettings.controls)
+  const [controlCapabilities, setControlCapabilities] = useState<ControlCapabilities | null>(null)
+  const lockedControlsRef = useRef<CameraControls | null>(null)
+  
+  const [lastCapture, setLastCapture] = useState<string | null>(null)
+  const [lastCaptureBytes, setLastCaptureBytes] = useState<number | null>(null)
+  const [intervalId, setIntervalId] = useState<number | null>(null)
+  const [status, setStatus] = useState('Ready')
+  const [activeStream, setActiveStream] = useState<MediaStream | null>(null)
+  const streamRef = useRef<MediaStream | null>(null) // Open stream, current even inside stale closures
+  const setupIdRef = useRef(0) // Bumped per setup and cleanup so a slow getUserMedia cannot revive a closed camera
+  const [lastCaptureAt, setLastCaptureAt] = useState<string | null>(null)
+  const [lastError, setLastError] = useState<string | null>(null)
+  
+  // Automatic reopening of a camera whose stream died
+  const [recovery, setRecovery] = useState<RecoveryStatus>(EMPTY_RECOVERY_STATUS)
+  const recoveryTimerRef = useRef<number | null>(null)
+  const recoveryAttemptRef = useRef(0)
+  const lastFailureAtRef = useRef(0)
+  
+  // Capture sessions of this camera; counters are kept in storage so capture loops always see the latest
+  const [sessions, setSessions] = useState(() => loadSessions(cameraId))
+  const activeSession = sessions.find(session => !session.endedAt) ?? null;
+  
+  // Camera selection, remembered across reloads
+  const { devices, refresh: refreshDevices } = useCameraDevices()
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(() => loadSelectedDeviceId(cameraId))
+  const [profiles, setProfiles] = useState<Record<string, CameraProfile>>(loadProfiles)
+  const profileKey = selectedDeviceId ?? 'default';
+  const profile = profiles[profileKey] ?? DEFAULT_PROFILE;
+
+  // Release the previous thumbnail once it is replaced
+  useEffect(() => {
+    return () => {
+      if (lastCapture) URL.revokeObjectURL(lastCapture);
+    };
+  }, [lastCapture]);
+
+  // Calculate max values for different interval units
+  const getMaxIntervalValue = (unit: IntervalUnit) => {
+    switch (unit) {
+      case 'seconds': return 60;
+      case 'minutes': return 60;
+      case 'hours': return 24;
+      default: return 60;
+    }
+  }
+
+  // Calculate interval in milliseconds based on value and unit
+  useEffect(() => {
+    setActualIntervalMs(toIntervalMs(intervalValue, intervalUnit));
+  }, [intervalValue, intervalUnit]);
+
+  // Persist settings whenever they change
+  useEffect(() => {
+    saveCameraSettings(cameraId, {
+      intervalValue,
+      intervalUnit,
+      timingMode,
+      missedSlotPolicy,
+      schedule,
+      powerSaving,
+      outputSettings,
+      autoResume,
+      captureMode,
+      motion,
+      frameQuality,
+      watermark,
+      transform,
+      controls,
+      stillCapture,
+      bracketing,
+      metadata: captureMetadata
+    });
+  }, [cameraId, intervalValue, intervalUnit, timingMode, missedSlotPolicy, schedule, powerSaving, outputSettings, autoResume, captureMode, motion, frameQuality, watermark, transform, controls, stillCapture, bracketing, captureMetadata]);
+
+  // Read the position ahead of the first capture, which also asks for permission as soon as it is switched on
+  useEffect(() => {
+    if (captureMetadata.enabled && captureMetadata.includeLocation) {
+      refreshLocation();
+    }
+  }, [captureMetadata.enabled, captureMetadata.includeLocation]);
+
+  // Decode the watermark logo once so it can be drawn on every frame
+  useEffect(() => {
+    let cancelled = false;
+    if (!watermark.logo) {
+      setLogoImage(null);
+      return;
+    }
+    
+    loadImage(watermark.logo)
+      .then(image => {
+        if (!cancelled) setLogoImage(image);
+      })
+      .catch(err => console.error('Error loading watermark logo:', err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [watermark.logo]);
+
+  // Read what a new stream supports and apply the manual controls, or the locked values while capturing
+  useEffect(() => {
+    const track = activeStream?.getVideoTracks()[0];
+    if (!track) {
+      setControlCapabilities(null);
+      return;
+    }
+    
+    setControlCapabilities(getControlCapabilities(track));
+    applyCameraControls(track, lockedControlsRef.current ?? controls)
+      .catch(err => console.error('Error applying camera controls:', err));
+  }, [activeStream, controls]);
+
+  // Remember the chosen camera
+  useEffect(() => {
+    saveSelectedDeviceId(cameraId, selectedDeviceId);
+  }, [cameraId, selectedDeviceId]);
+
+  // Keep capturingRef in sync with capturing state
+  useEffect(() => {
+    capturingRef.current = capturing;
+  }, [capturing]);
+
+  // Report camera health for the heartbeat
+  useEffect(() => {
+    const settings = activeStream?.getVideoTracks()[0]?.getSettings();
+    onHealthChange?.({
+      cameraId,
+      streamActive: !!activeStream,
+      capturing,
+      resolution: settings?.width && settings?.height ? { width: settings.width, height: settings.height } : null,
+      lastCaptureAt,
+      lastError,
+      frameIssues,
+      streamRecoveries: recovery.count,
+      sessionId: activeSession?.id ?? null
+    });
+  }, [cameraId, activeStream, capturing, lastCaptureAt, lastError, frameIssues, recovery.count, activeSession?.id, onHealthChange]);
+
+  // Stop the capture loop and release the camera when the station is removed or remounted
+  useEffect(() => {
+    return () => {
+      capturingRef.current = false;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, []);
+
+  // Initialize webcam, always reopening it so device and profile changes take effect
+  const setupCamera = async () => {
+      // Clean up any existing stream first to prevent conflicts
+      cleanupCamera();
+      const setupId = ++setupIdRef.current;
+
+      console.log('Requesting camera access...');
+      setStatus('Initializing camera...');
+      
+      // Try with ideal settings first
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ 
+          video: buildVideoConstraints(selectedDeviceId, profile),
+          audio: false
+        });
+        
+        // The camera was closed, reopened or removed while permission was pending
+        if (setupId !== setupIdRef.current || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return null;
+        }
+        streamRef.current = stream;
+        
+        // Device labels only become available once permission has been granted
+        refreshDevices();
+          
+        if (videoRef.current) {
+          console.log('Setting video source...');
+          videoRef.current.srcObject = stream;
+          setActiveStream(stream);
+          
+          // Return a promise that resolves when the video can play
+          await new Promise<void>((resolve) => {
+            if (!videoRef.current) {
+              console.log('Video ref lost during setup');
+              resolve();
+              return;
+            }
+            
+            const onCanPlay = () => {
+              console.log('Video can play now');
+              videoRef.current?.removeEventListener('canplay', onCanPlay);
+              resolve();
+            };
+            
+            if (videoRef.current && videoRef.current.readyState >= 3) { // HAVE_FUTURE_DATA = 3
+              console.log('Video already ready');
+              resolve();
+            } else {
+              console.log('Waiting for video to be ready...');
+              videoRef.current?.addEventListener('canplay', onCanPlay);
+              
+              // Fallback timeout in case event never fires
+              setTimeout(() => {
+                console.log('Video ready timeout - continuing anyway');
+                resolve();
+              }, 5000);
+            }
+        });
+      }
+        
+      setStatus('Camera ready');
+      return stream;
+    } catch (err) {
+      console.error('Error accessing webcam:', err);
+      setStatus('Camera error: ' + (err as Error).message);
+      setLastError('Camera error: ' + (err as Error).message);
+      throw err; // Re-throw to allow proper error handling
+    }
+  };
+
+  // Cleanup camera
+  const cleanupCamera = () => {
+    setupIdRef.current++;
+    const stream = streamRef.current;
+    if (stream) {
+      stream.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+      setActiveStream(null);
+      if (videoRef.current) {
+        videoRef.current.srcObject = null;
+      }
+      setStatus('Camera powered down');
+    }
+  };
+
+  // Video track currently shown in the preview; read from the element so it is current inside capture loops
+  const getVideoTrack = () => {
+    return (videoRef.current?.srcObject as MediaStream | null)?.getVideoTracks()[0] ?? null;
+  };
+
+  // Freeze automatic exposure, focus and white balance at their current values for a capture run
+  const lockControls = async () => {
+    const track = getVideoTrack();
+    if (!controls.lockDuringCapture || !track || lockedControlsRef.current) return;
+    
+    lockedControlsRef.current = getLockedControls(track, controls);
+    try {
+      await applyCameraControls(track, lockedControlsRef.current);
+    } catch (err) {
+      console.error('Error locking camera controls:', err);
+    }
+  };
+
+  // Hand exposure, focus and white balance back to the configured controls
+  const unlockControls = () => {
+    lockedControlsRef.current = null;
+    const track = getVideoTrack();
+    if (track) {
+      applyCameraControls(track, controls).catch(err => console.error('Error applying camera controls:', err));
+    }
+  };
+
+  // Reopen a failed camera after a growing delay, retrying for as long as it stays unavailable
+  const recoverCamera = (reason: string) => {
+    if (recoveryTimerRef.current !== null) return;
+    
+    const now = Date.now();
+    if (now - lastFailureAtRef.current > RECOVERY_RESET_MS) {
+      recoveryAttemptRef.current = 0;
+    }
+    lastFailureAtRef.current = now;
+    
+    const failedStream = (videoRef.current?.srcObject as MediaStream | null) ?? null;
+    const delay = getRecoveryDelay(recoveryAttemptRef.current++);
+    console.warn(`Camera failure: ${reason}, reconnecting in ${delay / 1000} s`);
+    setStatus(`${reason}, reconnecting in ${Math.round(delay / 1000)} s...`);
+    setLastError('Camera failure: ' + reason);
+    
+    recoveryTimerRef.current = window.setTimeout(async () => {
+      recoveryTimerRef.current = null;
+      
+      // Another setup may have opened the camera in the meantime
+      const current = (videoRef.current?.srcObject as MediaStream | null) ?? null;
+      if (current !== failedStream && isStreamLive(current)) return;
+      
+      try {
+        await setupCamera();
+      } catch (err) {
+        // Without permission retrying cannot help
+        if ((err as Error).name !== 'NotAllowedError') {
+          recoverCamera(reason);
+        }
+        return;
+      }
+      
+      console.log(`Camera recovered after: ${reason}`);
+      setRecovery(prev => ({ count: prev.count + 1, lastAt: new Date().toISOString(), lastReason: reason }));
+    }, delay);
+  };
+
+  // Reopen the camera as soon as the selected device is plugged back in instead of waiting out the backoff
+  const reconnectCamera = async () => {
+    if (recoveryTimerRef.current !== null) {
+      clearTimeout(recoveryTimerRef.current);
+      recoveryTimerRef.current = null;
+    }
+    recoveryAttemptRef.current = 0;
+    
+    try {
+      await setupCamera();
+    } catch (err) {
+      if ((err as Error).name !== 'NotAllowedError') {
+        recoverCamera('Camera unavailable');
+      }
+      return;
+    }
+    
+    console.log('Camera recovered after it was reconnected');
+    setRecovery(prev => ({ count: prev.count + 1, lastAt: new Date().toISOString(), lastReason: 'Camera reconnected' }));
+  };
+
+  // Initial camera setup
+  useEffect(() => {
+    if (!powerSaving) {
+      setupCamera().catch(err => {
+        if ((err as Error).name !== 'NotAllowedError') {
+          recoverCamera('Camera unavailable');
+        }
+      });
+    }
+    
+    return () => {
+      // Cleanup on component unmount
+      cleanupCamera();
+    };
+  }, [powerSaving, selectedDeviceId, profile.width, profile.height, profile.frameRate]);
+
+  // Drop a pending reconnection once the camera is switched off, changed or removed
+  useEffect(() => {
+    return () => {
+      if (recoveryTimerRef.current !== null) {
+        clearTimeout(recoveryTimerRef.current);
+        recoveryTimerRef.current = null;
+      }
+    };
+  }, [powerSaving, selectedDeviceId]);
+
+  // Power saving opens the camera for every capture, so only a permanent preview is watched
+  useStreamWatchdog(activeStream, videoRef, selectedDeviceId, !powerSaving, recoverCamera, reconnectCamera);
+
+  // Count a frame in the active session and show the new totals
+  const recordFrameOutcome = (outcome: 'captured' | 'skipped' | 'failed') => {
+    recordSessionOutcome(cameraId, outcome);
+    setSessions(loadSessions(cameraId));
+  };
+
+  // Store a session change and tell the backend; a failed sync is retried after the next upload
+  const handleSessionChange = (change: () => unknown) => {
+    change();
+    const updated = loadSessions(cameraId);
+    setSessions(updated);
+    updated.filter(session => session.syncedRevision < session.revision).forEach(session => {
+      syncSession(session).catch(err => console.error('Error syncing capture session:', err));
+    });
+  };
+
+  // Encode a frame, keep it in the history and upload it, queueing it for retry when the upload fails
+  const processFrame = async (
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    capturedAt: string,
+    captureMethod: CaptureMethod,
+    bracket?: BracketTag
+  ) => {
+    if (!canvasRef.current) {
+      throw new Error('Canvas reference not available');
+    }
+    
+    const canvas = canvasRef.current;
+    const context = canvas.getContext('2d');
+    
+    if (!context) {
+      throw new Error('Could not get canvas context');
+    }
+    
+    // Set canvas dimensions to the rotated and cropped frame, downscaled to the target width if set
+    const transformedSize = getTransformedSize(sourceWidth, sourceHeight, transform);
+    const outputSize = getOutputSize(transformedSize.width, transformedSize.height, outputSettings.targetWidth);
+    canvas.width = outputSize.width;
+    canvas.height = outputSize.height;
+    
+    // Draw the frame to canvas the way the camera is mounted
+    drawTransformed(context, source, sourceWidth, sourceHeight, transform, canvas.width, canvas.height);
+    
+    // Check the frame before spending storage and bandwidth on it; single exposures of a
+    // bracket are meant to be too dark or too bright, so only whole frames are checked
+    const bracketMember = bracket !== undefined && bracket.exposureOffset !== null;
+    let qualityFlags: FrameIssue[] = [];
+    if (frameQuality.action !== 'off' && !bracketMember) {
+      const stats = analyzeFrame(canvas);
+      qualityFlags = getFrameIssues(stats, previousHashRef.current, frameQuality);
+      previousHashRef.current = stats.hash;
+      
+      if (qualityFlags.length > 0) {
+        setFrameIssues(prev => {
+          const next = { ...prev };
+          qualityFlags.forEach(issue => next[issue]++);
+          return next;
+        });
+        if (frameQuality.action === 'skip') {
+          setStatus('Skipped frame: ' + qualityFlags.map(issue => ISSUE_LABELS[issue]).join(', '));
+          recordFrameOutcome('skipped');
+          return;
+        }
+      }
+    }
+    
+    // Burn in the overlay after the checks so its text does not count as image content
+    if (watermark.enabled) {
+      drawWatermark(context, canvas.width, canvas.height, watermark, new Date(capturedAt), logoImage);
+    }
+    
+    // Encode the frame in the configured format
+    let image = await canvasToBlob(canvas, outputSettings.format, outputSettings.quality);
+    
+    // Describe the frame, and write the description into JPEGs for tools that only see the file
+    const metadata = captureMetadata.enabled
+      ? collectMetadata(getVideoTrack(), captureMetadata, new Date(capturedAt))
+      : undefined;
+    if (metadata && captureMetadata.embedExif && image.type === 'image/jpeg') {
+      try {
+        image = await embedExif(image, metadata, new Date(capturedAt), canvas.width, canvas.height);
+      } catch (err) {
+        console.error('Error writing EXIF metadata:', err);
+      }
+    }
+    
+    setLastCapture(URL.createObjectURL(image));
+    setLastCaptureBytes(image.size);
+    
+    // Keep a local copy for the history gallery; failing to store it must not stop the upload
+    try {
+      await addFrame({ cameraId, timestamp: capturedAt, image, width: canvas.width, height: canvas.height });
+    } catch (err) {
+      console.error('Error storing frame in history:', err);
+    }
+    setLastCaptureAt(capturedAt);
+    
+    const sessionFrame = nextSessionFrame(cameraId);
+    recordFrameOutcome('captured');
+    
+    const payload = {
+      cameraId,
+      image,
+      timestamp: capturedAt,
+      captureMethod,
+      ...(sessionFrame ? { sessionId: sessionFrame.sessionId, sequence: sessionFrame.sequence } : {}),
+      ...(metadata ? { metadata } : {}),
+      ...(bracket ? { bracket } : {}),
+      ...(qualityFlags.length > 0 ? { qualityFlags } : {})
+    };
+    
+    setStatus('Sending image...');
+    const { pendingTargets, error } = await uploadCapture(payload);
+    if (error) {
+      // Keep the frame in the outbox for the targets it missed so it is retried instead of lost
+      console.error('Upload failed, queueing image for retry:', error);
+      await onUploadFailed({ ...payload, targets: pendingTargets }, error);
+      setStatus('Upload failed, image queued for retry: ' + error);
+      setLastError('Upload failed: ' + error);
+      recordFrameOutcome('failed');
+      return;
+    }
+    
+    setStatus('Image captured and sent successfully');
+    
+    // The backend is reachable again, so send session details it missed
+    syncPendingSessions(cameraId).catch(err => console.error('Error syncing capture sessions:', err));
+  };
+
+  // Grab a frame from the camera, as a full-resolution photo when enabled and supported,
+  // otherwise from the live preview
+  const grabFrame = async (): Promise<{ image: ImageBitmap; method: CaptureMethod; capturedAt: string }> => {
+    if (!videoRef.current) {
+      throw new Error('Video reference not available');
+    }
+    
+    const capturedAt = new Date().toISOString();
+    const track = getVideoTrack();
+    if (stillCapture && track && isStillCaptureSupported()) {
+      try {
+        return { image: await takeFullResolutionPhoto(track), method: 'image-capture', capturedAt };
+      } catch (err) {
+        console.error('Full-resolution capture failed, using the video frame instead:', err);
+      }
+    }
+    
+    // A disconnected camera leaves the preview without frames rather than failing
+    if (videoRef.current.videoWidth === 0 || !isStreamLive(videoRef.current.srcObject as MediaStream | null)) {
+      throw new Error('Camera is not delivering frames');
+    }
+    
+    return { image: await createImageBitmap(videoRef.current), method: 'video-frame', capturedAt };
+  };
+
+  // Take one frame per exposure, then process them as a tagged group or merged into a single frame
+  const captureBracket = async (track: MediaStreamTrack, capabilities: ControlCapabilities) => {
+    const base = lockedControlsRef.current ?? controls;
+    const shots: { image: ImageBitmap; method: CaptureMethod; capturedAt: string; offset: number }[] = [];
+    
+    try {
+      try {
+        for (const offset of getBracketOffsets(bracketing)) {
+          setStatus(`Bracketing at ${offset > 0 ? '+' : ''}${offset} EV...`);
+          await applyCameraControls(track, getBracketControls(base, offset, capabilities));
+          await new Promise(resolve => setTimeout(resolve, BRACKET_SETTLE_MS));
+          shots.push({ ...(await grabFrame()), offset });
+        }
+      } finally {
+        // Return to the normal exposure even when a frame failed
+        await applyCameraControls(track, base).catch(err => console.error('Error restoring exposure:', err));
+      }
+      
+      const groupId = crypto.randomUUID();
+      if (bracketing.output === 'group') {
+        for (const shot of shots) {
+          const tag = { groupId, size: shots.length, exposureOffset: shot.offset };
+          await processFrame(shot.image, shot.image.width, shot.image.height, shot.capturedAt, shot.method, tag);
+        }
+        return;
+      }
+      
+      setStatus('Merging exposures...');
+      const merged = await mergeFrames(shots.map(shot => shot.image));
+      const tag = { groupId, size: shots.length, exposureOffset: null };
+      await processFrame(merged, merged.width, merged.height, shots[0].capturedAt, shots[0].method, tag);
+    } finally {
+      shots.forEach(shot => shot.image.close());
+    }
+  };
+
+  // Capture and process one frame, or an exposure bracket when enabled and the camera supports it
+  const captureFrame = async () => {
+    const track = getVideoTrack();
+    const capabilities = track ? getControlCapabilities(track) : null;
+    if (bracketing.enabled && track && capabilities && canBracket(capabilities)) {
+      await captureBracket(track, capabilities);
+      return;
+    }
+    
+    const { image, method, capturedAt } = await grabFrame();
+    try {
+      await processFrame(image, image.width, image.height, capturedAt, method);
+    } finally {
+      image.close();
+    }
+  };
+
+  // Take a single picture
+  const takePicture = async () => {
+    // Check if we should capture based on the schedule
+    if (!isWithinSchedule(schedule, new Date())) {
+      setStatus('Skipping capture: outside scheduled hours');
+      
+      // If in power saving mode, ensure the camera is cleaned up
+      if (powerSaving && streamRef.current) {
+        cleanupCamera();
+      }
+      
+      return false; // Return false to indicate capture was skipped
+    }
+
+    try {
+      // If using power saving mode, setup camera before taking picture
+      if (powerSaving) {
+        if (!streamRef.current || !videoRef.current || videoRef.current.srcObject !== streamRef.current) {
+          console.log('Camera initialization required in power saving mode');
+          setStatus('Initializing camera for capture...');
+          
+          try {
+            await setupCamera();
+            
+            // Wait for camera to initialize and stabilize
+            console.log('Waiting for camera to stabilize...');
+            await new Promise(resolve => setTimeout(resolve, 2000));
+            
+            // Double-check if the stream is active and ready
+            if (!streamRef.current || !videoRef.current || !videoRef.current.srcObject) {
+              throw new Error('Camera failed to initialize properly');
+            }
+            
+            // Ensure the video is actually playing and ready
+            if (videoRef.current.readyState < 2) { // HAVE_CURRENT_DATA = 2
+              console.log('Waiting for video to be ready...');
+              await new Promise<void>(resolve => {
+                const videoElement = videoRef.current;
+                if (videoElement) {
+                  const onLoadedData = () => {
+                    videoElement.removeEventListener('loadeddata', onLoadedData);
+                    resolve();
+                  };
+                  videoElement.addEventListener('loadeddata', onLoadedData);
+                  
+                  // Fallback timeout in case event never fires
+                  setTimeout(resolve, 3000);
+                } else {
+                  resolve();
+                }
+              });
+            }
+            
+            console.log('Camera ready with stream:', !!streamRef.current);
+            setStatus('Camera ready for capture');
+            
+            // The first stream of a capture run decides the locked values, later ones reuse them
+            if (capturingRef.current) {
+              await lockControls();
+            }
+          } catch (err) {
+            console.error('Camera initialization failed:', err);
+            throw new Error('Failed to initialize camera: ' + (err as Error).message);
+          }
+        } else {
+          console.log('Camera already active, using existing stream');
+        }
+      }
+
+      await captureFrame();
+      return true; // Return true to indicate successful capture
+    } catch (err) {
+      console.error('Error in capture process:', err);
+      setStatus('Capture error: ' + (err as Error).message);
+      setLastError('Capture error: ' + (err as Error).message);
+      recordFrameOutcome('failed');
+      return false; // Return false to indicate failed capture
+    } finally {
+      // If in power saving mode, turn off camera after capture
+      if (powerSaving && streamRef.current) {
+        console.log('Cleaning up camera after capture');
+        cleanupCamera();
+      }
+    }
+  };
+
+  // Watch the preview for motion and capture a burst whenever the region changes enough
+  const startMotionDetection = () => {
+    // Motion detection needs a live preview, so the camera has to stay on
+    if (powerSaving) {
+      setPowerSaving(false);
+    }
+    
+    const detector = createMotionDetector(motion.region, transform);
+    const triggerLevel = getTriggerLevel(motion.sensitivity);
+    const preFrames: { bitmap: ImageBitmap; capturedAt: string }[] = [];
+    let cooldownUntil = 0;
+    
+    // Upload the buffered frames from before the trigger, the trigger frame and the frames after it
+    const captureBurst = async () => {
+      setStatus('Motion detected, capturing...');
+      const buffered = preFrames.splice(0);
+      try {
+        for (const frame of buffered) {
+          await processFrame(frame.bitmap, frame.bitmap.width, frame.bitmap.height, frame.capturedAt, 'video-frame');
+        }
+      } finally {
+        buffered.forEach(frame => frame.bitmap.close());
+      }
+      
+      await captureFrame();
+      for (let i = 0; i < motion.postFrames && capturingRef.current; i++) {
+        await new Promise(resolve => setTimeout(resolve, MOTION_SAMPLE_INTERVAL_MS));
+        await captureFrame();
+      }
+    };
+    
+    const sample = async () => {
+      if (!capturingRef.current) {
+        preFrames.splice(0).forEach(frame => frame.bitmap.close());
+        return;
+      }
+      
+      // Only sample a playing preview, and only while the schedule allows capturing
+      const video = videoRef.current;
+      if (video && video.readyState >= 2 && isWithinSchedule(schedule, new Date())) {
+        const level = detector.sample(video);
+        setMotionLevel(level);
+        
+        if (level >= triggerLevel && Date.now() >= cooldownUntil) {
+          try {
+            await captureBurst();
+          } catch (err) {
+            console.error('Error in capture process:', err);
+            setStatus('Capture error: ' + (err as Error).message);
+            setLastError('Capture error: ' + (err as Error).message);
+            recordFrameOutcome('failed');
+          }
+          cooldownUntil = Date.now() + motion.cooldownSeconds * 1000;
+        } else if (motion.preFrames > 0) {
+          try {
+            preFrames.push({ bitmap: await createImageBitmap(video), capturedAt: new Date().toISOString() });
+            while (preFrames.length > motion.preFrames) {
+              preFrames.shift()?.bitmap.close();
+            }
+          } catch (err) {
+            console.error('Error buffering frame:', err);
+          }
+        }
+      }
+      
+      if (capturingRef.current) {
+        motionTimerRef.current = window.setTimeout(sample, MOTION_SAMPLE_INTERVAL_MS);
+      } else {
+        preFrames.splice(0).forEach(frame => frame.bitmap.close());
+      }
+    };
+    
+    setStatus('Watching for motion');
+    sample();
+  };
+
+  // Start/stop automatic capture
+  const toggleCapture = () => {
+    if (capturing) {
+      // Stop capturing
+      if (intervalId) {
+        clearTimeout(intervalId);
+        setIntervalId(null);
+      }
+      if (motionTimerRef.current) {
+        clearTimeout(motionTimerRef.current);
+        motionTimerRef.current = null;
+      }
+      setMotionLevel(null);
+      unlockControls();
+      setCapturing(false);
+      capturingRef.current = false; // Update ref immediately
+      saveCapturingState(cameraId, false);
+      setNextCaptureAt(null);
+      setStatus('Capture stopped');
+      
+      // If in power saving mode, turn off camera when stopping
+      if (powerSaving) {
+        cleanupCamera();
+      }
+    } else {
+      // Start capturing
+      setCapturing(true);
+      capturingRef.current = true; // Update ref immediately
+      saveCapturingState(cameraId, true);
+      lockControls();
+      
+      if (captureMode === 'motion') {
+        startMotionDetection();
+        return;
+      }
+      
+      // Plan the timer for a slot; captures fire on absolute slot times so their duration never causes drift
+      const scheduleSlot = (slot: number) => {
+        setNextCaptureAt(slot);
+        console.log(`Scheduling next capture at ${new Date(slot).toLocaleTimeString()}`);
+        
+        const id = window.setTimeout(() => {
+          // Use capturingRef instead of capturing to avoid closure issues
+          if (!capturingRef.current) return;
+          
+          const now = Date.now();
+          if (now - slot > getLateTolerance(actualIntervalMs)) {
+            // The timer fired long after its slot (throttled tab or sleeping device)
+            if (missedSlotPolicy === 'skip') {
+              const next = getFirstSlotFrom(timingMode, slot, now, actualIntervalMs);
+              console.log(`Missed capture slot ${new Date(slot).toLocaleTimeString()}, skipping`);
+              setStatus(`Missed capture at ${new Date(slot).toLocaleTimeString()}, skipped`);
+              scheduleSlot(next);
+              return;
+            }
+            
+            // Capture once now for the most recent missed slot and continue the series from there
+            const latest = getLatestSlot(timingMode, slot, now, actualIntervalMs);
+            console.log(`Missed capture slot ${new Date(slot).toLocaleTimeString()}, catching up`);
+            runSlot(latest);
+            return;
+          }
+          
+          runSlot(slot);
+        }, Math.max(0, slot - Date.now()));
+        
+        setIntervalId(id);
+      };
+      
+      // Capture for a slot, then plan the following one
+      const runSlot = async (slot: number) => {
+        // Take picture and check if it was successful or skipped due to the schedule
+        const captureSuccess = await takePicture();
+        
+        // Only schedule the next capture if still capturing
+        if (!capturingRef.current) return;
+        
+        // Outside the schedule in relative mode, check again in 1 minute rather than waiting
+        // for the full interval, and restart the series once a window opens
+        if (timingMode === 'relative' && !captureSuccess && schedule.enabled) {
+          scheduleSlot(Date.now() + Math.min(60000, actualIntervalMs));
+          return;
+        }
+        
+        scheduleSlot(getNextSlot(timingMode, slot, actualIntervalMs));
+      };
+      
+      if (timingMode === 'aligned') {
+        // Wait for the first clock boundary rather than shooting off-grid
+        const now = Date.now();
+        scheduleSlot(getFirstSlotFrom(timingMode, now, now, actualIntervalMs));
+      } else {
+        // Take first picture immediately
+        runSlot(Date.now());
+      }
+      setStatus('Capturing started');
+    }
+  };
+
+  // Latest toggleCapture for the resume effect, which should only rerun when the camera or power mode changes
+  const toggleCaptureRef = useRef(toggleCapture);
+
+  useEffect(() => {
+    toggleCaptureRef.current = toggleCapture;
+  });
+
+  // Resume automatic capture after a reload once the camera is ready (or right away in power saving mode)
+  useEffect(() => {
+    if (resumePendingRef.current && (powerSaving || activeStream)) {
+      resumePendingRef.current = false;
+      console.log('Resuming automatic capture');
+      toggleCaptureRef.current();
+    }
+  }, [activeStream, powerSaving]);
+
+  // Update the capture profile of the selected camera
+  const handleProfileChange = (changes: Partial<CameraProfile>) => {
+    const updated = { ...profile, ...changes };
+    setProfiles(prev => ({
+      ...prev,
+      [profileKey]: updated
+    }));
+    saveProfile(profileKey, updated);
+  };
+
+  // Handle output setting changes
+  const handleOutputSettingChange = <K extends keyof OutputSettings>(key: K, value: OutputSettings[K]) => {
+    setOutputSettings(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  // Handle motion setting changes
+  const handleMotionSettingChange = <K extends keyof MotionSettings>(key: K, value: MotionSettings[K]) => {
+    setMotion(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  // Handle frame quality setting changes
+  const handleFrameQualityChange = <K extends keyof FrameQualitySettings>(key: K, value: FrameQualitySettings[K]) => {
+    setFrameQuality(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  const handleMetadataChange = <K extends keyof MetadataSettings>(key: K, value: MetadataSettings[K]) => {
+    setCaptureMetadata(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  // Update manual controls, starting a control switched to manual from the value the camera uses now
+  const handleControlsChange = (changes: Partial<CameraControls>) => {
+    const track = getVideoTrack();
+    const filled = { ...changes };
+    if (track) {
+      if (changes.exposureMode === 'manual' && controls.exposureTime === null) {
+        filled.exposureTime = getCurrentControlValue(track, 'exposureTime');
+      }
+      if (changes.focusMode === 'manual' && controls.focusDistance === null) {
+        filled.focusDistance = getCurrentControlValue(track, 'focusDistance');
+      }
+      if (changes.whiteBalanceMode === 'manual' && controls.colorTemperature === null) {
+        filled.colorTemperature = getCurrentControlValue(track, 'colorTemperature');
+      }
+    }
+    setControls(prev => ({ ...prev, ...filled }));
+  };
+
+  // Track the camera's native size for laying out the rotated preview
+  const handleVideoResize = () => {
+    const video = videoRef.current;
+    if (video && video.videoWidth > 0) {
+      setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+    }
+  };
+
+  // Switch between interval and motion-triggered capture
+  const handleCaptureModeChange = (mode: CaptureMode) => {
+    setCaptureMode(mode);
+    // Motion detection needs a live preview, so power saving cannot be used with it
+    if (mode === 'motion') {
+      setPowerSaving(false);
+    }
+  };
+
+  const triggerLevel = getTriggerLevel(motion.sensitivity);
+  const motionDetected = capturing && motionLevel !== null && motionLevel >= triggerLevel;
+
+  // Number of captures per day, limited to the scheduled windows when enabled
+  const getFramesPerDay = (): number => {
+    return Math.floor(getAverageDailyMinutes(schedule, new Date()) * 60000 / actualIntervalMs);
+  };
+
+  const profileSize = getTransformedSize(profile.width, profile.height, transform);
+  const estimatedFrameBytes = estimateFrameBytes(profileSize.width, profileSize.height, outputSettings);
+
+  // Quarter turns swap the preview's width and height, so the video is sized against the rotated box
+  const quarterTurn = transform.rotation % 180 !== 0 && videoSize !== null;
+
+  // Format interval for display
+  const formatIntervalDisplay = (): string => {
+    if (intervalValue === 1) {
+      // Singular form
+      return `${intervalValue} ${intervalUnit.slice(0, -1)}`;
+    }
+    return `${intervalValue} ${intervalUnit}`;
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6 w-full">
+      <div className="flex items-center justify-between w-full">
+        <h2 className="text-xl font-semibold">{cameraId}</h2>
+        {onRemove && (
+          <Button variant="outline" size="sm" onClick={onRemove} disabled={capturing}>
+            Remove Camera
+          </Button>
+        )}
+      </div>
+      
+      <Card className="w-full">
+        <CardContent className="p-0 overflow-hidden">
+          <div
+            className="relative w-full overflow-hidden"
+            style={quarterTurn ? { aspectRatio: `${videoSize.height} / ${videoSize.width}` } : undefined}
+          >
+            <video 
+              ref={videoRef} 
+              autoPlay 
+              playsInline 
+              onLoadedMetadata={handleVideoResize}
+              onResize={handleVideoResize}
+              className={quarterTurn ? "absolute top-1/2 left-1/2 max-w-none" : "w-full"}
+              style={quarterTurn
+                ? { width: `${100 * videoSize.width / videoSize.height}%`, transform: `translate(-50%, -50%) ${getCssTransform(transform)}` }
+                : { transform: getCssTransform(transform) }}
+            />
+            {(editingCrop || !isFullFrame(transform.crop)) && (
+              <RegionOverlay
+                region={transform.crop}
+                onRegionChange={(crop) => setTransform(prev => ({ ...prev, crop }))}
+                editable={editingCrop && !capturing}
+                variant="shade"
+              />
+            )}
+            {watermark.enabled && !editingCrop && (
+              <WatermarkPreview videoRef={videoRef} watermark={watermark} logo={logoImage} transform={transform} />
+            )}
+            {captureMode === 'motion' && !editingCrop && (
+              <RegionOverlay
+                region={motion.region}
+                onRegionChange={(region) => handleMotionSettingChange('region', region)}
+                editable={!capturing}
+                variant={motionDetected ? 'highlight' : 'outline'}
+              />
+            )}
+          </div>
+          <canvas ref={canvasRef} className="hidden" />
+        </CardContent>
+      </Card>
+      
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-lg">Status: {status}</CardTitle>
+          {capturing && nextCaptureAt && (
+            <p className="text-sm text-muted-foreground">Next capture at {new Date(nextCaptureAt).toLocaleTimeString()}</p>
+          )}
+          {frameQuality.action !== 'off' && (
+            <p className="text-sm text-muted-foreground">
+              Frames {frameQuality.action === 'skip' ? 'skipped' : 'flagged'}: {(Object.keys(frameIssues) as FrameIssue[]).map(issue => `${frameIssues[issue]} ${ISSUE_LABELS[issue]}`).join(', ')}
+            </p>
+          )}
+          {recovery.count > 0 && recovery.lastAt && (
+            <p className="text-sm text-muted-foreground">
+              Camera reconnected {recovery.count} {recovery.count === 1 ? 'time' : 'times'}, last at {new Date(recovery.lastAt).toLocaleString()} ({recovery.lastReason})
+            </p>
+          )}
+          {capturing && motionLevel !== null && (
+            <p className="text-sm text-muted-foreground">
+              Motion: {(motionLevel * 100).toFixed(1)}% of the region changed (triggers at {(triggerLevel * 100).toFixed(1)}%)
+            </p>
+          )}
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <div className="flex gap-4">
+            <Button 
+              variant="outline"
+              onClick={takePicture} 
+              disabled={capturing}
+              className="flex-1"
+            >
+              Take Picture
+            </Button>
+            
+            <Button 
+              onClick={toggleCapture} 
+              variant={capturing ? "destructive" : "default"}
+              className="flex-1"
+            >
+              {capturing ? 'Stop Capture' : captureMode === 'motion' ? 'Start Motion Capture' : 'Start Automatic Capture'}
+            </Button>
+          </div>
+          
+          <Tabs defaultValue="interval" className="w-full">
+            <TabsList className="grid grid-cols-7">
+              <TabsTrigger value="interval">Interval Settings</TabsTrigger>
+              <TabsTrigger value="motion">Motion</TabsTrigger>
+              <TabsTrigger value="schedule">Schedule & Power</TabsTrigger>
+              <TabsTrigger value="camera">Camera</TabsTrigger>
+              <TabsTrigger value="output">Output</TabsTrigger>
+              <TabsTrigger value="overlay">Overlay</TabsTrigger>
+              <TabsTrigger value="session">Session</TabsTrigger>
+            </TabsList>
+            
+            <TabsContent value="interval" className="space-y-4">
+              <div className="flex flex-col gap-4 py-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-interval-value`} className="min-w-32">Capture every:</Label>
+                  <div className="flex-1 flex items-center gap-2">
+                    <Slider
+                      id={`${idPrefix}-interval-value`}
+                      disabled={capturing}
+                      min={1}
+                      max={getMaxIntervalValue(intervalUnit)}
+                      step={1}
+                      value={[intervalValue]}
+                      onValueChange={(values) => setIntervalValue(values[0])}
+                      className="flex-1"
+                    />
+                    <span className="w-8 text-right">{intervalValue}</span>
+                  </div>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-interval-unit`} className="min-w-32">Unit:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={intervalUnit}
+                    onValueChange={(value: IntervalUnit) => setIntervalUnit(value)}
+                  >
+                    <SelectTrigger id={`${idPrefix}-interval-unit`} className="flex-1">
+                      <SelectValue placeholder="Select unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="seconds">Seconds</SelectItem>
+                      <SelectItem value="minutes">Minutes</SelectItem>
+                      <SelectItem value="hours">Hours</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-timing-mode`} className="min-w-32">Timing:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={timingMode}
+                    onValueChange={(value: TimingMode) => setTimingMode(value)}
+                  >
+                    <SelectTrigger id={`${idPrefix}-timing-mode`} className="flex-1">
+                      <SelectValue placeholder="Select timing" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="relative">From when capture starts</SelectItem>
+                      <SelectItem value="aligned">Aligned to the clock</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-missed-slots`} className="min-w-32">Missed captures:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={missedSlotPolicy}
+                    onValueChange={(value: MissedSlotPolicy) => setMissedSlotPolicy(value)}
+                  >
+                    <SelectTrigger id={`${idPrefix}-missed-slots`} className="flex-1">
+                      <SelectValue placeholder="Select behaviour" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip">Skip and wait for the next slot</SelectItem>
+                      <SelectItem value="catch-up">Catch up with one capture</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="flex items-center space-x-2 py-2">
+                  <Switch
+                    id={`${idPrefix}-auto-resume`}
+                    checked={autoResume}
+                    onCheckedChange={(checked: boolean) => setAutoResume(checked)}
+                  />
+                  <Label htmlFor={`${idPrefix}-auto-resume`}>Resume automatic capture after a reload or restart</Label>
+                </div>
+                
+                <div className="pt-2 text-sm text-muted-foreground">
+                  Current interval: {formatIntervalDisplay()}
+                  {timingMode === 'aligned' && ', on clock boundaries counted from midnight'}
+                </div>
+                
+                <div className="text-sm text-muted-foreground">
+                  Estimated upload: ~{formatBytes(estimatedFrameBytes)} per frame, ~{formatBytes(estimatedFrameBytes * getFramesPerDay())} per day
+                  {lastCaptureBytes !== null && ` (last frame: ${formatBytes(lastCaptureBytes)})`}
+                </div>
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="motion" className="space-y-4">
+              <div className="flex flex-col gap-4 py-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-capture-mode`} className="min-w-32">Capture on:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={captureMode}
+                    onValueChange={(value: CaptureMode) => handleCaptureModeChange(value)}
+                  >
+                    <SelectTrigger id={`${idPrefix}-capture-mode`} className="flex-1">
+                      <SelectValue placeholder="Select trigger" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="interval">Fixed interval</SelectItem>
+                      <SelectItem value="motion">Detected motion</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {captureMode === 'motion' && (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`${idPrefix}-motion-sensitivity`} className="min-w-32">Sensitivity:</Label>
+                      <div className="flex-1 flex items-center gap-2">
+                        <Slider
+                          id={`${idPrefix}-motion-sensitivity`}
+                          disabled={capturing}
+                          min={1}
+                          max={100}
+                          step={1}
+                          value={[motion.sensitivity]}
+                          onValueChange={(values) => handleMotionSettingChange('sensitivity', values[0])}
+                          className="flex-1"
+                        />
+                        <span className="w-8 text-right">{motion.sensitivity}</span>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`${idPrefix}-motion-cooldown`} className="min-w-32">Cooldown:</Label>
+                      <div className="flex-1 flex items-center gap-2">
+                        <Slider
+                          id={`${idPrefix}-motion-cooldown`}
+                          disabled={capturing}
+                          min={0}
+                          max={300}
+                          step={5}
+                          value={[motion.cooldownSeconds]}
+                          onValueChange={(values) => handleMotionSettingChange('cooldownSeconds', values[0])}
+                          className="flex-1"
+                        />
+                        <span className="w-12 text-right">{motion.cooldownSeconds}s</span>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`${idPrefix}-motion-pre-frames`} className="min-w-32">Frames before:</Label>
+                      <div className="flex-1 flex items-center gap-2">
+                        <Slider
+                          id={`${idPrefix}-motion-pre-frames`}
+                          disabled={capturing}
+                          min={0}
+                          max={MAX_PRE_FRAMES}
+                          step={1}
+                          value={[motion.preFrames]}
+                          onValueChange={(values) => handleMotionSettingChange('preFrames', values[0])}
+                          className="flex-1"
+                        />
+                        <span className="w-8 text-right">{motion.preFrames}</span>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`${idPrefix}-motion-post-frames`} className="min-w-32">Frames after:</Label>
+                      <div className="flex-1 flex items-center gap-2">
+                        <Slider
+                          id={`${idPrefix}-motion-post-frames`}
+                          disabled={capturing}
+                          min={0}
+                          max={MAX_POST_FRAMES}
+                          step={1}
+                          value={[motion.postFrames]}
+                          onValueChange={(values) => handleMotionSettingChange('postFrames', values[0])}
+                          className="flex-1"
+                        />
+                        <span className="w-8 text-right">{motion.postFrames}</span>
+                      </div>
+                    </div>
+                    
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={capturing}
+                      onClick={() => handleMotionSettingChange('region', FULL_FRAME_REGION)}
+                    >
+                      Watch Whole Frame
+                    </Button>
+                    
+                    <div className="text-sm text-muted-foreground">
+                      Drag on the preview to choose the region watched for motion. Frames before and after the trigger are taken {MOTION_SAMPLE_INTERVAL_MS / 1000}s apart.
+                      Motion is only detected inside the schedule, and the camera stays on, so power saving is turned off.
+                    </div>
+                  </>
+                )}
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="schedule" className="space-y-4">
+              <ScheduleSettings
+                schedule={schedule}
+                onScheduleChange={setSchedule}
+                powerSaving={powerSaving}
+                onPowerSavingChange={setPowerSaving}
+                intervalMs={actualIntervalMs}
+                disabled={capturing}
+              />
+            </TabsContent>
+            
+            <TabsContent value="camera" className="space-y-4">
+              <div className="flex flex-col gap-4 py-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-camera-device`} className="min-w-32">Camera:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={selectedDeviceId ?? 'default'}
+                    onValueChange={(value: string) => setSelectedDeviceId(value === 'default' ? null : value)}
+                  >
+                    <SelectTrigger id={`${idPrefix}-camera-device`} className="flex-1">
+                      <SelectValue placeholder="Select camera" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Default (rear camera if available)</SelectItem>
+                      {devices.map((device, index) => (
+                        <SelectItem key={device.deviceId} value={device.deviceId}>
+                          {device.label || `Camera ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                      {selectedDeviceId && !devices.some(device => device.deviceId === selectedDeviceId) && (
+                        <SelectItem value={selectedDeviceId}>Disconnected camera</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-camera-resolution`} className="min-w-32">Resolution:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={`${profile.width}x${profile.height}`}
+                    onValueChange={(value: string) => {
+                      const [width, height] = value.split('x').map(Number);
+                      handleProfileChange({ width, height });
+                    }}
+                  >
+                    <SelectTrigger id={`${idPrefix}-camera-resolution`} className="flex-1">
+                      <SelectValue placeholder="Select resolution" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RESOLUTION_PRESETS.map(preset => (
+                        <SelectItem key={preset.label} value={`${preset.width}x${preset.height}`}>
+                          {preset.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-camera-frame-rate`} className="min-w-32">Frame rate:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={String(profile.frameRate)}
+                    onValueChange={(value: string) => handleProfileChange({ frameRate: Number(value) })}
+                  >
+                    <SelectTrigger id={`${idPrefix}-camera-frame-rate`} className="flex-1">
+                      <SelectValue placeholder="Select frame rate" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FRAME_RATE_PRESETS.map(rate => (
+                        <SelectItem key={rate} value={String(rate)}>{rate} fps</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="text-sm text-muted-foreground">
+                  Resolution and frame rate are remembered separately for each camera. The camera may pick the closest mode it supports.
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-camera-rotation`} className="min-w-32">Rotation:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={String(transform.rotation)}
+                    onValueChange={(value: string) => setTransform(prev => ({ ...prev, rotation: Number(value) as Rotation, crop: FULL_FRAME_REGION }))}
+                  >
+                    <SelectTrigger id={`${idPrefix}-camera-rotation`} className="flex-1">
+                      <SelectValue placeholder="Select rotation" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROTATIONS.map(rotation => (
+                        <SelectItem key={rotation} value={String(rotation)}>
+                          {rotation === 0 ? 'None' : `${rotation}° clockwise`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`${idPrefix}-flip-horizontal`}
+                    disabled={capturing}
+                    checked={transform.flipHorizontal}
+                    onCheckedChange={(checked: boolean) => setTransform(prev => ({ ...prev, flipHorizontal: checked }))}
+                  />
+                  <Label htmlFor={`${idPrefix}-flip-horizontal`}>Flip horizontally (mirror)</Label>
+                </div>
+                
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`${idPrefix}-flip-vertical`}
+                    disabled={capturing}
+                    checked={transform.flipVertical}
+                    onCheckedChange={(checked: boolean) => setTransform(prev => ({ ...prev, flipVertical: checked }))}
+                  />
+                  <Label htmlFor={`${idPrefix}-flip-vertical`}>Flip vertically</Label>
+                </div>
+                
+                <div className="flex gap-2">
+                  <Button
+                    variant={editingCrop ? "default" : "outline"}
+                    size="sm"
+                    disabled={capturing}
+                    onClick={() => setEditingCrop(prev => !prev)}
+                    className="flex-1"
+                  >
+                    {editingCrop ? 'Done Cropping' : 'Crop Frame'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={capturing || isFullFrame(transform.crop)}
+                    onClick={() => setTransform(prev => ({ ...prev, crop: FULL_FRAME_REGION }))}
+                    className="flex-1"
+                  >
+                    Reset Crop
+                  </Button>
+                </div>
+                
+                <div className="text-sm text-muted-foreground">
+                  {editingCrop
+                    ? 'Drag on the preview to select the part of the frame to keep.'
+                    : 'Rotation, flips and crop apply to the preview, saved frames and uploads. Changing the rotation resets the crop.'}
+                </div>
+                
+                <CameraControlsPanel
+                  capabilities={controlCapabilities}
+                  controls={controls}
+                  onControlsChange={handleControlsChange}
+                  disabled={capturing}
+                />
+                
+                <BracketingSettings
+                  bracketing={bracketing}
+                  onBracketingChange={setBracketing}
+                  supported={canBracket(controlCapabilities)}
+                  disabled={capturing}
+                />
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="output" className="space-y-4">
+              <div className="flex flex-col gap-4 py-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-output-format`} className="min-w-32">Format:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={outputSettings.format}
+                    onValueChange={(value: OutputFormat) => handleOutputSettingChange('format', value)}
+                  >
+                    <SelectTrigger id={`${idPrefix}-output-format`} className="flex-1">
+                      <SelectValue placeholder="Select format" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OUTPUT_FORMATS.map(format => (
+                        <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-output-quality`} className="min-w-32">Quality:</Label>
+                  <div className="flex-1 flex items-center gap-2">
+                    <Slider
+                      id={`${idPrefix}-output-quality`}
+                      disabled={capturing || isLossless(outputSettings.format)}
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      value={[outputSettings.quality]}
+                      onValueChange={(values) => handleOutputSettingChange('quality', values[0])}
+                      className="flex-1"
+                    />
+                    <span className="w-12 text-right">{Math.round(outputSettings.quality * 100)}%</span>
+                  </div>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-output-width`} className="min-w-32">Resolution:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={outputSettings.targetWidth ? String(outputSettings.targetWidth) : 'native'}
+                    onValueChange={(value: string) => handleOutputSettingChange('targetWidth', value === 'native' ? null : Number(value))}
+                  >
+                    <SelectTrigger id={`${idPrefix}-output-width`} className="flex-1">
+                      <SelectValue placeholder="Select resolution" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="native">Native camera resolution</SelectItem>
+                      {TARGET_WIDTH_PRESETS.map(width => (
+                        <SelectItem key={width} value={String(width)}>{width} px wide</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="flex items-center space-x-2 py-2">
+                  <Switch
+                    id={`${idPrefix}-still-capture`}
+                    disabled={capturing || !isStillCaptureSupported()}
+                    checked={stillCapture}
+                    onCheckedChange={(checked: boolean) => setStillCapture(checked)}
+                  />
+                  <Label htmlFor={`${idPrefix}-still-capture`}>Take full-resolution photos instead of video frames</Label>
+                </div>
+                
+                <div className="text-sm text-muted-foreground">
+                  Frames are only ever scaled down, keeping the camera's aspect ratio. Browsers without WebP encoding fall back to PNG.
+                  {stillCapture && ' Photos use the sensor\'s largest still size and fall back to the video frame when the camera refuses; some cameras briefly pause the preview while taking them.'}
+                  {!isStillCaptureSupported() && ' This browser cannot take full-resolution photos.'}
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`${idPrefix}-quality-action`} className="min-w-32">Bad frames:</Label>
+                  <Select
+                    disabled={capturing}
+                    value={frameQuality.action}
+                    onValueChange={(value: QualityAction) => handleFrameQualityChange('action', value)}
+                  >
+                    <SelectTrigger id={`${idPrefix}-quality-action`} className="flex-1">
+                      <SelectValue placeholder="Select behaviour" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUALITY_ACTIONS.map(action => (
+                        <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {frameQuality.action !== 'off' && (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`${idPrefix}-quality-brightness`} className="min-w-32">Min. brightness:</Label>
+                      <div className="flex-1 flex items-center gap-2">
+                        <Slider
+                          id={`${idPrefix}-quality-brightness`}
+                          disabled={capturing}
+                          min={0}
+                          max={128}
+                          step={1}
+                          value={[frameQuality.minBrightness]}
+                          onValueChange={(values) => handleFrameQualityChange('minBrightness', values[0])}
+                          className="flex-1"
+                        />
+                        <span className="w-8 text-right">{frameQuality.minBrightness}</span>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`${idPrefix}-quality-contrast`} className="min-w-32">Min. contrast:</Label>
+                      <div className="flex-1 flex items-center gap-2">
+                        <Slider
+                          id={`${idPrefix}-quality-contrast`}
+                          disabled={capturing}
+                          min={0}
+                          max={40}
+                          step={1}
+                          value={[frameQuality.minContrast]}
+                          onValueChange={(values) => handleFrameQualityChange('minContrast', values[0])}
+                          className="flex-1"
+                        />
+                        <span className="w-8 text-right">{frameQuality.minContrast}</span>
+                      </div>
+                    </div>
+                    
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`${idPrefix}-quality-duplicates`} className="min-w-32">Duplicates:</Label>
+                      <Select
+                        disabled={capturing}
+                        value={String(frameQuality.maxDuplicateDistance)}
+                        onValueChange={(value: string) => handleFrameQualityChange('maxDuplicateDistance', Number(value))}
+                      >
+                        <SelectTrigger id={`${idPrefix}-quality-duplicates`} className="flex-1">
+                          <SelectValue placeholder="Select duplicate check" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DUPLICATE_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="text-sm text-muted-foreground">
+                      Brightness is the mean luminance (0-255) and contrast its spread; a covered lens scores low on both.
+                      The duplicate check catches a frozen stream, but a perfectly still scene can also look identical between frames.
+                    </div>
+                  </>
+                )}
+                
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`${idPrefix}-metadata-enabled`}
+                    disabled={capturing}
+                    checked={captureMetadata.enabled}
+                    onCheckedChange={(checked: boolean) => handleMetadataChange('enabled', checked)}
+                  />
+                  <Label htmlFor={`${idPrefix}-metadata-enabled`}>Send camera, device and time zone details with each frame</Label>
+                </div>
+                
+                {captureMetadata.enabled && (
+                  <>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id={`${idPrefix}-metadata-location`}
+                        disabled={capturing}
+                        checked={captureMetadata.includeLocation}
+                        onCheckedChange={(checked: boolean) => handleMetadataChange('includeLocation', checked)}
+                      />
+                      <Label htmlFor={`${idPrefix}-metadata-location`}>Include GPS position</Label>
+                    </div>
+                    
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id={`${idPrefix}-metadata-exif`}
+                        disabled={capturing}
+                        checked={captureMetadata.embedExif}
+                        onCheckedChange={(checked: boolean) => handleMetadataChange('embedExif', checked)}
+                      />
+                      <Label htmlFor={`${idPrefix}-metadata-exif`}>Write EXIF into JPEG frames</Label>
+                    </div>
+                    
+                    <div className="text-sm text-muted-foreground">
+                      Details include the camera's actual resolution and exposure, the browser and the time zone offset.
+                      {captureMetadata.includeLocation && ' The position is read at most every 10 minutes and needs location permission.'}
+                      {outputSettings.format !== 'image/jpeg' && captureMetadata.embedExif && ' EXIF is only written when the output format is JPEG.'}
+                    </div>
+                  </>
+                )}
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="overlay" className="space-y-4">
+              <WatermarkSettings
+                watermark={watermark}
+                onWatermarkChange={setWatermark}
+                disabled={capturing}
+              />
+            </TabsContent>
+            
+            <TabsContent value="session" className="space-y-4">
+              <SessionPanel
+                sessions={sessions}
+                onStart={(details: SessionDetails) => handleSessionChange(() => startSession(cameraId, details))}
+                onUpdate={(details: SessionDetails) => handleSessionChange(() => updateSessionDetails(cameraId, details))}
+                onEnd={() => handleSessionChange(() => endSession(cameraId))}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+      
+      {lastCapture && (
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="text-lg">Last Captured Image</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center">
+            <img src={lastCapture} alt="Last capture" className="max-h-60 rounded-md" />
+          </CardContent>
+          <CardFooter>
+            <p>Captured at: {lastCaptureAt ? new Date(lastCaptureAt).toLocaleTimeString() : 'unknown'}</p>
+          </CardFooter>
+        </Card>
+      )}
+      
+      <CaptureHistory cameraId={cameraId} latestCaptureAt={lastCaptureAt} />
+      
+      <VideoExport cameraId={cameraId} />
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+import { useState, useEffect, useRef } from 'react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import { getRecentThumbnails, getThumbnailsAfter, getFrame, clearFrames, type FrameThumbnail } from '@/lib/frame-history'
+
+// Frames loaded into the gallery
+const HISTORY_LIMIT = 120;
+
+// Frames per second of the preview timelapse
+const PLAYBACK_FPS = 8;
+
+const PREVIEW_LENGTHS = [15, 30, 60, 120];
+
+interface HistoryFrame {
+  id: number;
+  timestamp: string;
+  url: string; // Object URL of the thumbnail
+}
+
+// Object URLs for thumbnails, added to `urls` so they can be released once they leave the gallery
+const toHistoryFrames = (thumbnails: FrameThumbnail[], urls: Set<string>): HistoryFrame[] => {
+  return thumbnails.map(thumbnail => {
+    const url = URL.createObjectURL(thumbnail.image);
+    urls.add(url);
+    return { id: thumbnail.id, timestamp: thumbnail.timestamp, url };
+  });
+};
+
+interface CaptureHistoryProps {
+  cameraId: string;
+  latestCaptureAt: string | null; // Add frames captured since the last load whenever this changes
+}
+
+// Recent frames of a camera with a scrubber and a preview timelapse
+export const CaptureHistory = ({ cameraId, latestCaptureAt }: CaptureHistoryProps) => {
+  const [frames, setFrames] = useState<HistoryFrame[]>([])
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [previewLength, setPreviewLength] = useState(30)
+  const [revision, setRevision] = useState(0) // Bumped to reload after clearing
+
+  const [fullImage, setFullImage] = useState<{ id: number; url: string } | null>(null) // Full frame of the selection
+  const urlsRef = useRef(new Set<string>()) // Thumbnail object URLs not yet released
+  const lastTimestampRef = useRef<string | null>(null) // Newest frame loaded, null until the first load
+
+  // Load the thumbnails of the recent frames
+  useEffect(() => {
+    let cancelled = false;
+    lastTimestampRef.current = null;
+
+    getRecentThumbnails(cameraId, HISTORY_LIMIT)
+      .then(loaded => {
+        if (cancelled) return;
+        lastTimestampRef.current = loaded.length > 0 ? loaded[loaded.length - 1].timestamp : '';
+        setFrames(toHistoryFrames(loaded, urlsRef.current));
+        setSelectedIndex(Math.max(0, loaded.length - 1));
+      })
+      .catch(err => console.error('Error loading capture history:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraId, revision]);
+
+  // Append only the frames captured since the last load
+  useEffect(() => {
+    const after = lastTimestampRef.current;
+    if (after === null || !latestCaptureAt) return;
+    let cancelled = false;
+
+    getThumbnailsAfter(cameraId, after)
+      .then(added => {
+        if (cancelled || added.length === 0 || lastTimestampRef.current !== after) return;
+        lastTimestampRef.current = added[added.length - 1].timestamp;
+        const newFrames = toHistoryFrames(added, urlsRef.current);
+        setFrames(prev => [...prev, ...newFrames].slice(-HISTORY_LIMIT));
+        setSelectedIndex(HISTORY_LIMIT - 1); // Clamped to the newest frame when fewer are loaded
+      })
+      .catch(err => console.error('Error loading capture history:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraId, latestCaptureAt]);
+
+  // Release thumbnails that dropped out of the gallery
+  useEffect(() => {
+    const urls = urlsRef.current;
+    const kept = new Set(frames.map(frame => frame.url));
+    urls.forEach(url => {
+      if (!kept.has(url)) {
+        URL.revokeObjectURL(url);
+        urls.delete(url);
+      }
+    });
+  }, [frames]);
+
+  // Release every thumbnail when the gallery is removed
+  useEffect(() => {
+    const urls = urlsRef.current;
+    return () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  const currentIndex = Math.min(selectedIndex, frames.length - 1);
+  const selected = frames.length > 0 ? frames[currentIndex] : null;
+  const selectedId = selected?.id ?? null;
+
+  // Load the full frame of the selection once the gallery rests on it; playback shows thumbnails
+  useEffect(() => {
+    if (selectedId === null || playing) return;
+    let cancelled = false;
+    let url: string | null = null;
+
+    getFrame(selectedId)
+      .then(frame => {
+        if (cancelled || !frame) return;
+        url = URL.createObjectURL(frame.image);
+        setFullImage({ id: selectedId, url });
+      })
+      .catch(err => console.error('Error loading frame:', err));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [selectedId, playing]);
+
+  // Step through the last frames in a loop while playing
+  useEffect(() => {
+    if (!playing || frames.length === 0) return;
+
+    const firstIndex = Math.max(0, frames.length - previewLength);
+    setSelectedIndex(firstIndex);
+    const playId = window.setInterval(() => {
+      setSelectedIndex(prev => prev + 1 >= frames.length ? firstIndex : prev + 1);
+    }, 1000 / PLAYBACK_FPS);
+
+    return () => {
+      window.clearInterval(playId);
+    };
+  }, [playing, frames.length, previewLength]);
+
+  const handleClear = async () => {
+    setPlaying(false);
+    try {
+      await clearFrames(cameraId);
+    } catch (err) {
+      console.error('Error clearing capture history:', err);
+    }
+    setRevision(prev => prev + 1);
+  };
+
+  if (!selected) return null;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg">Capture History</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <div className="flex flex-col items-center gap-2">
+          <img
+            src={fullImage?.id === selected.id ? fullImage.url : selected.url}
+            alt={`Capture at ${selected.timestamp}`}
+            className="max-h-80 rounded-md"
+          />
+          <p className="text-sm text-muted-foreground">
+            {new Date(selected.timestamp).toLocaleString()} ({currentIndex + 1} of {frames.length})
+          </p>
+        </div>
+
+        <Slider
+          min={0}
+          max={frames.length - 1}
+          step={1}
+          value={[currentIndex]}
+          onValueChange={(values) => {
+            setPlaying(false);
+            setSelectedIndex(values[0]);
+          }}
+        />
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPlaying(prev => !prev)}>
+            {playing ? 'Pause' : 'Play'}
+          </Button>
+          <Select
+            value={String(previewLength)}
+            onValueChange={(value: string) => setPreviewLength(Number(value))}
+          >
+            <SelectTrigger size="sm" className="flex-1">
+              <SelectValue placeholder="Preview length" />
+            </SelectTrigger>
+            <SelectContent>
+              {PREVIEW_LENGTHS.map(length => (
+                <SelectItem key={length} value={String(length)}>Last {length} frames</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleClear}>
+            Clear History
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-6 gap-2">
+          {frames.slice(-24).map((frame, offset) => {
+            const index = Math.max(0, frames.length - 24) + offset;
+            return (
+              <button
+                key={frame.id}
+                type="button"
+                onClick={() => {
+                  setPlaying(false);
+                  setSelectedIndex(index);
+                }}
+                className={index === currentIndex ? "rounded-sm ring-2 ring-ring" : "rounded-sm opacity-80 hover:opacity-100"}
+              >
+                <img src={frame.url} alt={`Thumbnail ${frame.timestamp}`} className="w-full rounded-sm" />
+              </button>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,78 @@
+import { useId, useState, type FormEvent } from 'react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { DeviceCredentials } from '@/lib/auth'
+
+interface DevicePairingProps {
+  credentials: DeviceCredentials | null;
+  pairingRequired: boolean;
+  onPair: (pairingCode: string) => Promise<void>;
+  onUnpair: () => void;
+}
+
+// Pairing form shown once the backend asks for authentication, and the pairing state afterwards
+export const DevicePairing = ({ credentials, pairingRequired, onPair, onUnpair }: DevicePairingProps) => {
+  const idPrefix = useId()
+  const [pairingCode, setPairingCode] = useState('')
+  const [pairing, setPairing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (credentials) {
+    return (
+      <div className="flex items-center gap-2 w-full text-sm text-muted-foreground">
+        <span className="flex-1">
+          Paired with the backend since {new Date(credentials.enrolledAt).toLocaleString()}
+          {credentials.signingKey ? ', uploads are signed' : ''}
+        </span>
+        <Button variant="outline" size="sm" onClick={onUnpair}>
+          Unpair
+        </Button>
+      </div>
+    )
+  }
+
+  if (!pairingRequired) return null;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setPairing(true);
+    try {
+      await onPair(pairingCode.trim());
+      setPairingCode('');
+      setError(null);
+    } catch (err) {
+      console.error('Error pairing device:', err);
+      setError((err as Error).message);
+    } finally {
+      setPairing(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardContent>
+        <form className="flex flex-col gap-2" onSubmit={handleSubmit}>
+          <Label htmlFor={`${idPrefix}-pairing-code`}>
+            The backend requires this device to be paired. Enter the pairing code it shows for this device.
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id={`${idPrefix}-pairing-code`}
+              value={pairingCode}
+              onChange={(e) => setPairingCode(e.target.value)}
+              placeholder="Pairing code"
+              autoComplete="off"
+              className="flex-1"
+            />
+            <Button type="submit" disabled={pairing || !pairingCode.trim()}>
+              {pairing ? 'Pairing...' : 'Pair Device'}
+            </Button>
+          </div>
+          {error && <p className="text-sm text-destructive">Pairing failed: {error}</p>}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
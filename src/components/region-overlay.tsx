@@ -0,0 +1,80 @@
+import { useState, useRef, type PointerEvent } from 'react'
+import { type Region, normalizeRegion } from '@/lib/transform'
+
+interface RegionOverlayProps {
+  region: Region;
+  onRegionChange: (region: Region) => void;
+  editable: boolean;
+  variant: 'outline' | 'highlight' | 'shade'; // Dashed outline, filled highlight, or dim everything outside the region
+}
+
+const VARIANT_CLASSES = {
+  outline: "absolute border-2 border-dashed border-primary",
+  highlight: "absolute border-2 border-destructive bg-destructive/20",
+  shade: "absolute border border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]",
+};
+
+// Shows a region over the camera preview and lets the user drag out a new one
+export const RegionOverlay = ({ region, onRegionChange, editable, variant }: RegionOverlayProps) => {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const startRef = useRef<{ x: number; y: number } | null>(null)
+  const [draft, setDraft] = useState<Region | null>(null)
+
+  // Pointer position as fractions of the overlay
+  const toFraction = (event: PointerEvent) => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height))
+    };
+  };
+
+  const regionBetween = (a: { x: number; y: number }, b: { x: number; y: number }): Region => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y)
+  });
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (!editable) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    startRef.current = toFraction(event);
+    setDraft(regionBetween(startRef.current, startRef.current));
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (!startRef.current) return;
+    setDraft(regionBetween(startRef.current, toFraction(event)));
+  };
+
+  const handlePointerUp = (event: PointerEvent) => {
+    if (!startRef.current) return;
+    // A click without dragging selects the whole frame again
+    onRegionChange(normalizeRegion(regionBetween(startRef.current, toFraction(event))));
+    startRef.current = null;
+    setDraft(null);
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <div
+      ref={overlayRef}
+      className={editable ? "absolute inset-0 overflow-hidden cursor-crosshair touch-none" : "absolute inset-0 overflow-hidden pointer-events-none"}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <div
+        className={VARIANT_CLASSES[variant]}
+        style={{
+          left: `${shown.x * 100}%`,
+          top: `${shown.y * 100}%`,
+          width: `${shown.width * 100}%`,
+          height: `${shown.height * 100}%`
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,334 @@
+import { useState, useId } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import { type TwilightType, TWILIGHT_OPTIONS } from '@/lib/solar'
+import {
+  type CaptureSchedule,
+  type ScheduleWindow,
+  type WindowKind,
+  WEEKDAYS,
+  createWindow,
+  getUpcomingCaptures,
+} from '@/lib/schedule'
+
+// Number of upcoming captures listed in the preview
+const PREVIEW_COUNT = 8;
+
+interface ScheduleSettingsProps {
+  schedule: CaptureSchedule;
+  onScheduleChange: (schedule: CaptureSchedule) => void;
+  powerSaving: boolean;
+  onPowerSavingChange: (powerSaving: boolean) => void;
+  intervalMs: number;
+  disabled: boolean;
+}
+
+// Parse a number input, keeping empty fields as null
+const parseCoordinate = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Editor for capture windows, date range, location and power saving
+export const ScheduleSettings = ({
+  schedule,
+  onScheduleChange,
+  powerSaving,
+  onPowerSavingChange,
+  intervalMs,
+  disabled,
+}: ScheduleSettingsProps) => {
+  const idPrefix = useId() // Keeps element ids unique when several cameras are shown
+  const [locating, setLocating] = useState(false)
+  const [locationError, setLocationError] = useState<string | null>(null)
+
+  const update = (changes: Partial<CaptureSchedule>) => {
+    onScheduleChange({ ...schedule, ...changes });
+  };
+
+  const updateWindow = (id: string, changes: Partial<ScheduleWindow>) => {
+    update({
+      windows: schedule.windows.map(window => window.id === id ? { ...window, ...changes } : window)
+    });
+  };
+
+  const toggleDay = (window: ScheduleWindow, day: number) => {
+    const days = window.days.includes(day)
+      ? window.days.filter(d => d !== day)
+      : [...window.days, day].sort();
+    updateWindow(window.id, { days });
+  };
+
+  // Fill in the coordinates from the browser's location
+  const fillCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Geolocation is not available in this browser');
+      return;
+    }
+
+    setLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        update({
+          latitude: Number(position.coords.latitude.toFixed(4)),
+          longitude: Number(position.coords.longitude.toFixed(4))
+        });
+        setLocating(false);
+      },
+      (err) => {
+        console.error('Error getting location:', err);
+        setLocationError(err.message);
+        setLocating(false);
+      },
+      { timeout: 15000 }
+    );
+  };
+
+  const usesSolar = schedule.windows.some(window => window.kind === 'solar');
+  const missingLocation = usesSolar && (schedule.latitude === null || schedule.longitude === null);
+  const upcoming = schedule.enabled ? getUpcomingCaptures(schedule, intervalMs, new Date(), PREVIEW_COUNT) : [];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center space-x-2 py-2">
+        <Switch
+          id={`${idPrefix}-schedule-enabled`}
+          disabled={disabled}
+          checked={schedule.enabled}
+          onCheckedChange={(checked: boolean) => update({ enabled: checked })}
+        />
+        <Label htmlFor={`${idPrefix}-schedule-enabled`}>Capture only during scheduled windows</Label>
+      </div>
+
+      {schedule.enabled && (
+        <>
+          {schedule.windows.map((window, index) => (
+            <div key={window.id} className="flex flex-col gap-3 rounded-md border p-3">
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`${idPrefix}-window-kind-${window.id}`} className="min-w-20">Window {index + 1}:</Label>
+                <Select
+                  disabled={disabled}
+                  value={window.kind}
+                  onValueChange={(value: WindowKind) => updateWindow(window.id, { kind: value })}
+                >
+                  <SelectTrigger id={`${idPrefix}-window-kind-${window.id}`} className="flex-1">
+                    <SelectValue placeholder="Select window type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fixed">Fixed times</SelectItem>
+                    <SelectItem value="solar">Daylight (sunrise to sunset)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={disabled || schedule.windows.length === 1}
+                  onClick={() => update({ windows: schedule.windows.filter(w => w.id !== window.id) })}
+                >
+                  Remove
+                </Button>
+              </div>
+
+              {window.kind === 'fixed' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="flex flex-col gap-2">
+                    <Label htmlFor={`${idPrefix}-start-time-${window.id}`}>Start Time:</Label>
+                    <Input
+                      type="time"
+                      id={`${idPrefix}-start-time-${window.id}`}
+                      disabled={disabled}
+                      value={window.start}
+                      onChange={(e) => updateWindow(window.id, { start: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Label htmlFor={`${idPrefix}-end-time-${window.id}`}>End Time:</Label>
+                    <Input
+                      type="time"
+                      id={`${idPrefix}-end-time-${window.id}`}
+                      disabled={disabled}
+                      value={window.end}
+                      onChange={(e) => updateWindow(window.id, { end: e.target.value })}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="flex flex-col gap-2">
+                    <Label htmlFor={`${idPrefix}-start-offset-${window.id}`}>Start offset (minutes):</Label>
+                    <Input
+                      type="number"
+                      id={`${idPrefix}-start-offset-${window.id}`}
+                      disabled={disabled}
+                      step={5}
+                      value={window.startOffset}
+                      onChange={(e) => updateWindow(window.id, { startOffset: Number(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Label htmlFor={`${idPrefix}-end-offset-${window.id}`}>End offset (minutes):</Label>
+                    <Input
+                      type="number"
+                      id={`${idPrefix}-end-offset-${window.id}`}
+                      disabled={disabled}
+                      step={5}
+                      value={window.endOffset}
+                      onChange={(e) => updateWindow(window.id, { endOffset: Number(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((name, day) => (
+                  <Button
+                    key={name}
+                    variant={window.days.includes(day) ? "default" : "outline"}
+                    size="sm"
+                    disabled={disabled}
+                    onClick={() => toggleDay(window, day)}
+                  >
+                    {name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => update({ windows: [...schedule.windows, createWindow()] })}
+          >
+            Add Window
+          </Button>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor={`${idPrefix}-start-date`}>From date (optional):</Label>
+              <Input
+                type="date"
+                id={`${idPrefix}-start-date`}
+                disabled={disabled}
+                value={schedule.startDate}
+                onChange={(e) => update({ startDate: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor={`${idPrefix}-end-date`}>Until date (optional):</Label>
+              <Input
+                type="date"
+                id={`${idPrefix}-end-date`}
+                disabled={disabled}
+                value={schedule.endDate}
+                onChange={(e) => update({ endDate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {usesSolar && (
+            <div className="flex flex-col gap-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor={`${idPrefix}-latitude`}>Latitude:</Label>
+                  <Input
+                    type="number"
+                    id={`${idPrefix}-latitude`}
+                    disabled={disabled}
+                    min={-90}
+                    max={90}
+                    step="any"
+                    value={schedule.latitude ?? ''}
+                    onChange={(e) => update({ latitude: parseCoordinate(e.target.value) })}
+                  />
+                </div>
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor={`${idPrefix}-longitude`}>Longitude:</Label>
+                  <Input
+                    type="number"
+                    id={`${idPrefix}-longitude`}
+                    disabled={disabled}
+                    min={-180}
+                    max={180}
+                    step="any"
+                    value={schedule.longitude ?? ''}
+                    onChange={(e) => update({ longitude: parseCoordinate(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={fillCurrentLocation}
+                disabled={disabled || locating}
+              >
+                {locating ? 'Locating...' : 'Use Current Location'}
+              </Button>
+              {locationError && (
+                <p className="text-sm text-destructive">Location error: {locationError}</p>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`${idPrefix}-twilight`} className="min-w-32">Daylight:</Label>
+                <Select
+                  disabled={disabled}
+                  value={schedule.twilight}
+                  onValueChange={(value: TwilightType) => update({ twilight: value })}
+                >
+                  <SelectTrigger id={`${idPrefix}-twilight`} className="flex-1">
+                    <SelectValue placeholder="Select daylight definition" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TWILIGHT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center space-x-2 py-2">
+        <Switch
+          id={`${idPrefix}-power-saving`}
+          disabled={disabled}
+          checked={powerSaving}
+          onCheckedChange={onPowerSavingChange}
+        />
+        <Label htmlFor={`${idPrefix}-power-saving`}>Power saving mode (camera on only during capture)</Label>
+      </div>
+
+      <div className="text-sm text-muted-foreground">
+        <p>Power saving mode turns the camera on only when taking pictures, reducing battery usage.</p>
+        {schedule.enabled && (
+          <p className="mt-2">Windows ending before they start run past midnight. Daylight windows follow the sun as the seasons change.</p>
+        )}
+        {missingLocation && (
+          <p className="mt-2">Enter coordinates to use daylight windows. Until then they never open.</p>
+        )}
+        {schedule.enabled && (
+          <div className="mt-2">
+            <p>Next scheduled captures:</p>
+            {upcoming.length > 0 ? (
+              <ul className="list-disc pl-5">
+                {upcoming.map(time => (
+                  <li key={time.getTime()}>{time.toLocaleString()}</li>
+                ))}
+              </ul>
+            ) : (
+              <p>No captures are scheduled.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
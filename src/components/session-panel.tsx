@@ -0,0 +1,133 @@
+import { useState, useId } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  type CaptureSession,
+  type SessionDetails,
+  type SessionStats,
+  EMPTY_SESSION_DETAILS,
+  parseTags,
+} from '@/lib/sessions'
+
+interface SessionPanelProps {
+  sessions: CaptureSession[];
+  onStart: (details: SessionDetails) => void;
+  onUpdate: (details: SessionDetails) => void;
+  onEnd: () => void;
+}
+
+const formatStats = (stats: SessionStats) => {
+  return `${stats.captured} captured, ${stats.skipped} skipped, ${stats.failed} failed`;
+};
+
+// Start, edit and end the capture session of a camera, with the stats of past sessions
+export const SessionPanel = ({ sessions, onStart, onUpdate, onEnd }: SessionPanelProps) => {
+  const idPrefix = useId() // Keeps element ids unique when several cameras are shown
+  const active = sessions.find(session => !session.endedAt) ?? null;
+  const ended = sessions.filter(session => session.endedAt);
+
+  // Form for a new session, or for the details of the active one while editing
+  const [editing, setEditing] = useState(false)
+  const [details, setDetails] = useState<SessionDetails>(EMPTY_SESSION_DETAILS)
+  const [tagText, setTagText] = useState('')
+
+  const openForm = (initial: SessionDetails) => {
+    setDetails(initial);
+    setTagText(initial.tags.join(', '));
+    setEditing(true);
+  };
+
+  const handleSubmit = () => {
+    const submitted = { ...details, name: details.name.trim(), tags: parseTags(tagText) };
+    if (active) {
+      onUpdate(submitted);
+    } else {
+      onStart(submitted);
+    }
+    setEditing(false);
+  };
+
+  const field = (key: 'name' | 'description' | 'location', label: string, placeholder: string) => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={`${idPrefix}-session-${key}`} className="min-w-24">{label}</Label>
+      <Input
+        id={`${idPrefix}-session-${key}`}
+        value={details[key]}
+        onChange={(e) => setDetails(prev => ({ ...prev, [key]: e.target.value }))}
+        placeholder={placeholder}
+        className="flex-1"
+      />
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      {editing ? (
+        <div className="flex flex-col gap-2">
+          {field('name', 'Name:', 'Bridge construction')}
+          {field('description', 'Description:', 'North side, deck pours')}
+          {field('location', 'Location:', 'Site office roof')}
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-session-tags`} className="min-w-24">Tags:</Label>
+            <Input
+              id={`${idPrefix}-session-tags`}
+              value={tagText}
+              onChange={(e) => setTagText(e.target.value)}
+              placeholder="construction, 2026"
+              className="flex-1"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSubmit} disabled={!details.name.trim()}>
+              {active ? 'Save Session' : 'Start Session'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : active ? (
+        <div className="flex flex-col gap-2">
+          <div className="font-medium">{active.name}</div>
+          {active.description && <div className="text-sm">{active.description}</div>}
+          <div className="text-sm text-muted-foreground">
+            Started {new Date(active.startedAt).toLocaleString()}
+            {active.location && ` at ${active.location}`}
+            {active.tags.length > 0 && ` · ${active.tags.join(', ')}`}
+          </div>
+          <div className="text-sm text-muted-foreground">{formatStats(active.stats)}</div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => openForm(active)}>
+              Edit
+            </Button>
+            <Button variant="outline" size="sm" onClick={onEnd}>
+              End Session
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <span className="flex-1 text-sm text-muted-foreground">
+            No session running. Frames are uploaded without a session until one is started.
+          </span>
+          <Button size="sm" onClick={() => openForm(EMPTY_SESSION_DETAILS)}>
+            New Session
+          </Button>
+        </div>
+      )}
+
+      {ended.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <Label>Previous sessions</Label>
+          {ended.map(session => (
+            <div key={session.id} className="text-sm text-muted-foreground">
+              <span className="font-medium text-foreground">{session.name}</span>
+              {' '}{new Date(session.startedAt).toLocaleString()} – {new Date(session.endedAt!).toLocaleString()}: {formatStats(session.stats)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { useRef, useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { exportConfiguration, parseConfiguration, applyConfiguration } from '@/lib/config-transfer'
+
+interface SettingsTransferProps {
+  onImported: () => void;
+}
+
+// Download the stored configuration as JSON, or replace it with an uploaded file
+export const SettingsTransfer = ({ onImported }: SettingsTransferProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = () => {
+    const json = JSON.stringify(exportConfiguration(), null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `timelapse-camera-config-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      applyConfiguration(parseConfiguration(await file.text()));
+      setError(null);
+      onImported();
+    } catch (err) {
+      console.error('Error importing configuration:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          Export Settings
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          Import Settings
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = ''; // Allow importing the same file again
+          }}
+        />
+      </div>
+      {error && <p className="text-sm text-destructive">Import failed: {error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+
+interface UploadQueueStatusProps {
+  queueCount: number;
+  flushing: boolean;
+  onFlush: () => void;
+  onDiscard: () => void;
+}
+
+// Count of captures waiting in the outbox with controls to retry or drop them
+export const UploadQueueStatus = ({ queueCount, flushing, onFlush, onDiscard }: UploadQueueStatusProps) => {
+  if (queueCount === 0) return null;
+
+  return (
+    <Card className="w-full">
+      <CardContent className="flex items-center gap-4">
+        <span className="flex-1 text-sm text-muted-foreground">
+          {queueCount} {queueCount === 1 ? 'image' : 'images'} waiting to be uploaded
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onFlush}
+          disabled={flushing}
+        >
+          {flushing ? 'Uploading...' : 'Flush Now'}
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={onDiscard}
+          disabled={flushing}
+        >
+          Discard
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,181 @@
+import { useState, useRef, useId } from 'react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import { getFramesInRange } from '@/lib/frame-history'
+import { exportTimelapse, getSupportedVideoType } from '@/lib/video-export'
+import { TARGET_WIDTH_PRESETS } from '@/lib/output-settings'
+
+const FPS_OPTIONS = [10, 15, 24, 30, 60];
+
+// Local time formatted for datetime-local inputs
+const toLocalInputValue = (date: Date): string => {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+interface VideoExportProps {
+  cameraId: string;
+}
+
+// Turn locally stored frames of a time range into a downloadable WebM timelapse
+export const VideoExport = ({ cameraId }: VideoExportProps) => {
+  const idPrefix = useId() // Keeps element ids unique when several cameras are shown
+  const [from, setFrom] = useState(() => toLocalInputValue(new Date(Date.now() - 24 * 3600 * 1000)))
+  const [to, setTo] = useState(() => toLocalInputValue(new Date()))
+  const [fps, setFps] = useState(24)
+  const [targetWidth, setTargetWidth] = useState<number | null>(1280)
+  const [timestampOverlay, setTimestampOverlay] = useState(true)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const supported = getSupportedVideoType() !== null;
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessage(null);
+
+    try {
+      // The inputs have minute precision, so include captures made during the last minute
+      const toIso = new Date(new Date(to).getTime() + 59999).toISOString();
+      const frames = await getFramesInRange(cameraId, new Date(from).toISOString(), toIso);
+      setProgress({ done: 0, total: frames.length });
+
+      const video = await exportTimelapse(
+        frames,
+        { fps, targetWidth, timestampOverlay },
+        (done, total) => setProgress({ done, total }),
+        controller.signal
+      );
+
+      const url = URL.createObjectURL(video);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${cameraId}-timelapse-${from.slice(0, 10)}.webm`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage(`Exported ${frames.length} frames`);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setMessage('Export cancelled');
+        return;
+      }
+      console.error('Error exporting video:', err);
+      setMessage('Export failed: ' + (err as Error).message);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const exporting = progress !== null;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg">Export Video</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {!supported && (
+          <p className="text-sm text-muted-foreground">This browser cannot record WebM video.</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor={`${idPrefix}-export-from`}>From:</Label>
+            <Input
+              type="datetime-local"
+              id={`${idPrefix}-export-from`}
+              disabled={exporting}
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor={`${idPrefix}-export-to`}>To:</Label>
+            <Input
+              type="datetime-local"
+              id={`${idPrefix}-export-to`}
+              disabled={exporting}
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor={`${idPrefix}-export-fps`}>Frame rate:</Label>
+            <Select
+              disabled={exporting}
+              value={String(fps)}
+              onValueChange={(value: string) => setFps(Number(value))}
+            >
+              <SelectTrigger id={`${idPrefix}-export-fps`} className="w-full">
+                <SelectValue placeholder="Select frame rate" />
+              </SelectTrigger>
+              <SelectContent>
+                {FPS_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option} fps</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor={`${idPrefix}-export-width`}>Resolution:</Label>
+            <Select
+              disabled={exporting}
+              value={targetWidth ? String(targetWidth) : 'native'}
+              onValueChange={(value: string) => setTargetWidth(value === 'native' ? null : Number(value))}
+            >
+              <SelectTrigger id={`${idPrefix}-export-width`} className="w-full">
+                <SelectValue placeholder="Select resolution" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="native">Frame resolution</SelectItem>
+                {TARGET_WIDTH_PRESETS.map(width => (
+                  <SelectItem key={width} value={String(width)}>{width} px wide</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch
+            id={`${idPrefix}-export-timestamp`}
+            disabled={exporting}
+            checked={timestampOverlay}
+            onCheckedChange={(checked: boolean) => setTimestampOverlay(checked)}
+          />
+          <Label htmlFor={`${idPrefix}-export-timestamp`}>Show capture time on each frame</Label>
+        </div>
+
+        <div className="flex items-center gap-4">
+          {exporting ? (
+            <Button variant="destructive" onClick={() => abortRef.current?.abort()} className="flex-1">
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={handleExport} disabled={!supported} className="flex-1">
+              Export WebM
+            </Button>
+          )}
+        </div>
+
+        {progress && (
+          <p className="text-sm text-muted-foreground">Encoding frame {progress.done} of {progress.total}...</p>
+        )}
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+        <p className="text-sm text-muted-foreground">
+          Encoding runs in real time, so exporting takes as long as the video plays. Only frames still kept on this device are included.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,53 @@
+import { useEffect, useRef, type RefObject } from 'react'
+import { type WatermarkSettings, drawWatermark } from '@/lib/watermark'
+import { type FrameTransform, getTransformedSize } from '@/lib/transform'
+
+interface WatermarkPreviewProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  watermark: WatermarkSettings;
+  logo: HTMLImageElement | null;
+  transform: FrameTransform;
+}
+
+// Draws the overlay on top of the live video, refreshed every second so the timestamp ticks.
+// It covers only the cropped part of the preview, where it will end up in the captured frame.
+export const WatermarkPreview = ({ videoRef, watermark, logo, transform }: WatermarkPreviewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !video || !context || video.videoWidth === 0) return;
+
+      // Match the captured frame's resolution so the overlay is sized exactly as in the frames
+      const size = getTransformedSize(video.videoWidth, video.videoHeight, transform);
+      canvas.width = size.width;
+      canvas.height = size.height;
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      drawWatermark(context, canvas.width, canvas.height, watermark, new Date(), logo);
+    };
+
+    draw();
+    const drawId = window.setInterval(draw, 1000);
+    return () => {
+      window.clearInterval(drawId);
+    };
+  }, [videoRef, watermark, logo, transform]);
+
+  const { crop } = transform;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute pointer-events-none"
+      style={{
+        left: `${crop.x * 100}%`,
+        top: `${crop.y * 100}%`,
+        width: `${crop.width * 100}%`,
+        height: `${crop.height * 100}%`
+      }}
+    />
+  )
+}
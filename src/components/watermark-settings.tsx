@@ -0,0 +1,233 @@
+import { useRef, useState, useId, type ChangeEvent } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select"
+import { blobToDataUrl } from '@/lib/image'
+import {
+  type WatermarkSettings as WatermarkOptions,
+  type WatermarkPosition,
+  type TimestampFormat,
+  WATERMARK_POSITIONS,
+  TIMESTAMP_FORMATS,
+  MAX_LOGO_BYTES,
+  isValidTimeZone,
+} from '@/lib/watermark'
+import { formatBytes } from '@/lib/output-settings'
+
+interface WatermarkSettingsProps {
+  watermark: WatermarkOptions;
+  onWatermarkChange: (watermark: WatermarkOptions) => void;
+  disabled: boolean;
+}
+
+// Editor for the timestamp, label and logo burned into each frame
+export const WatermarkSettings = ({ watermark, onWatermarkChange, disabled }: WatermarkSettingsProps) => {
+  const idPrefix = useId() // Keeps element ids unique when several cameras are shown
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [logoError, setLogoError] = useState<string | null>(null)
+
+  const update = (changes: Partial<WatermarkOptions>) => {
+    onWatermarkChange({ ...watermark, ...changes });
+  };
+
+  const handleLogoSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setLogoError('Logo must be an image');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError(`Logo must be smaller than ${formatBytes(MAX_LOGO_BYTES)}`);
+      return;
+    }
+
+    try {
+      update({ logo: await blobToDataUrl(file) });
+      setLogoError(null);
+    } catch (err) {
+      console.error('Error reading logo:', err);
+      setLogoError((err as Error).message);
+    }
+  };
+
+  const timeZoneValid = isValidTimeZone(watermark.timeZone);
+
+  return (
+    <div className="flex flex-col gap-4 py-2">
+      <div className="flex items-center space-x-2 py-2">
+        <Switch
+          id={`${idPrefix}-watermark-enabled`}
+          disabled={disabled}
+          checked={watermark.enabled}
+          onCheckedChange={(checked: boolean) => update({ enabled: checked })}
+        />
+        <Label htmlFor={`${idPrefix}-watermark-enabled`}>Burn an overlay into each frame</Label>
+      </div>
+
+      {watermark.enabled && (
+        <>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`${idPrefix}-watermark-timestamp`}
+              disabled={disabled}
+              checked={watermark.showTimestamp}
+              onCheckedChange={(checked: boolean) => update({ showTimestamp: checked })}
+            />
+            <Label htmlFor={`${idPrefix}-watermark-timestamp`}>Show capture time</Label>
+          </div>
+
+          {watermark.showTimestamp && (
+            <>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`${idPrefix}-watermark-format`} className="min-w-32">Time format:</Label>
+                <Select
+                  disabled={disabled}
+                  value={watermark.timestampFormat}
+                  onValueChange={(value: TimestampFormat) => update({ timestampFormat: value })}
+                >
+                  <SelectTrigger id={`${idPrefix}-watermark-format`} className="flex-1">
+                    <SelectValue placeholder="Select format" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMESTAMP_FORMATS.map(format => (
+                      <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`${idPrefix}-watermark-zone`} className="min-w-32">Time zone:</Label>
+                <Input
+                  id={`${idPrefix}-watermark-zone`}
+                  disabled={disabled}
+                  placeholder="Device time zone, e.g. Europe/Berlin"
+                  value={watermark.timeZone}
+                  onChange={(e) => update({ timeZone: e.target.value.trim() })}
+                  className="flex-1"
+                />
+              </div>
+              {!timeZoneValid && (
+                <p className="text-sm text-destructive">Unknown time zone, the device time zone is used instead.</p>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id={`${idPrefix}-watermark-show-zone`}
+                  disabled={disabled}
+                  checked={watermark.showTimeZone}
+                  onCheckedChange={(checked: boolean) => update({ showTimeZone: checked })}
+                />
+                <Label htmlFor={`${idPrefix}-watermark-show-zone`}>Include the time zone</Label>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-watermark-label`} className="min-w-32">Label:</Label>
+            <Input
+              id={`${idPrefix}-watermark-label`}
+              disabled={disabled}
+              placeholder="Project or location"
+              value={watermark.label}
+              onChange={(e) => update({ label: e.target.value })}
+              className="flex-1"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label className="min-w-32">Logo:</Label>
+            {watermark.logo && (
+              <img src={watermark.logo} alt="Watermark logo" className="h-8 rounded-sm" />
+            )}
+            <Button variant="outline" size="sm" disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+              {watermark.logo ? 'Replace Logo' : 'Add Logo'}
+            </Button>
+            {watermark.logo && (
+              <Button variant="outline" size="sm" disabled={disabled} onClick={() => update({ logo: null })}>
+                Remove
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleLogoSelected}
+            />
+          </div>
+          {logoError && (
+            <p className="text-sm text-destructive">Logo error: {logoError}</p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-watermark-position`} className="min-w-32">Position:</Label>
+            <Select
+              disabled={disabled}
+              value={watermark.position}
+              onValueChange={(value: WatermarkPosition) => update({ position: value })}
+            >
+              <SelectTrigger id={`${idPrefix}-watermark-position`} className="flex-1">
+                <SelectValue placeholder="Select position" />
+              </SelectTrigger>
+              <SelectContent>
+                {WATERMARK_POSITIONS.map(position => (
+                  <SelectItem key={position.value} value={position.value}>{position.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-watermark-size`} className="min-w-32">Text size:</Label>
+            <div className="flex-1 flex items-center gap-2">
+              <Slider
+                id={`${idPrefix}-watermark-size`}
+                disabled={disabled}
+                min={1}
+                max={10}
+                step={0.5}
+                value={[watermark.fontSize]}
+                onValueChange={(values) => update({ fontSize: values[0] })}
+                className="flex-1"
+              />
+              <span className="w-12 text-right">{watermark.fontSize}%</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-watermark-color`} className="min-w-32">Text color:</Label>
+            <Input
+              type="color"
+              id={`${idPrefix}-watermark-color`}
+              disabled={disabled}
+              value={watermark.textColor}
+              onChange={(e) => update({ textColor: e.target.value })}
+              className="w-16 p-1"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`${idPrefix}-watermark-background`}
+              disabled={disabled}
+              checked={watermark.background}
+              onCheckedChange={(checked: boolean) => update({ background: checked })}
+            />
+            <Label htmlFor={`${idPrefix}-watermark-background`}>Dark box behind the overlay</Label>
+          </div>
+
+          <div className="text-sm text-muted-foreground">
+            The preview shows the overlay on the live image. Text size is relative to the frame height, so it scales with the output resolution.
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// Lists the available video inputs and keeps the list current as cameras are plugged in or removed
+export const useCameraDevices = () => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const allDevices = await navigator.mediaDevices.enumerateDevices();
+      // Devices without an id are placeholders reported before camera permission is granted
+      setDevices(allDevices.filter(device => device.kind === 'videoinput' && device.deviceId));
+    } catch (err) {
+      console.error('Error enumerating devices:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [refresh]);
+
+  return { devices, refresh };
+};
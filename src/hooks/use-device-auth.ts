@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  loadCredentials,
+  isPairingRequired,
+  subscribeToCredentials,
+  enrollDevice,
+  clearCredentials,
+} from '@/lib/auth'
+
+// Pairing state of this device, kept current as requests are rejected or the device is paired
+export const useDeviceAuth = () => {
+  const [credentials, setCredentials] = useState(loadCredentials)
+  const [pairingRequired, setPairingRequired] = useState(isPairingRequired)
+
+  useEffect(() => {
+    return subscribeToCredentials(() => {
+      setCredentials(loadCredentials());
+      setPairingRequired(isPairingRequired());
+    });
+  }, []);
+
+  const pair = useCallback(async (pairingCode: string) => {
+    await enrollDevice(pairingCode);
+  }, []);
+
+  const unpair = useCallback(() => {
+    clearCredentials();
+  }, []);
+
+  return { credentials, pairingRequired, pair, unpair };
+};
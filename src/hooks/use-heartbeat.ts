@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react'
+import { type CameraHealth, buildHeartbeat, sendHeartbeat } from '@/lib/heartbeat'
+
+// How often the heartbeat is sent
+const HEARTBEAT_MS = 60 * 1000;
+
+interface HeartbeatState {
+  cameras: CameraHealth[];
+  queueDepth: number;
+  configVersion: string | null;
+}
+
+// Sends a heartbeat on start and then once a minute with the latest state
+export const useHeartbeat = (getState: () => HeartbeatState) => {
+  const getStateRef = useRef(getState)
+
+  useEffect(() => {
+    getStateRef.current = getState;
+  }, [getState]);
+
+  useEffect(() => {
+    const beat = async () => {
+      const { cameras, queueDepth, configVersion } = getStateRef.current();
+      try {
+        await sendHeartbeat(await buildHeartbeat(cameras, queueDepth, configVersion));
+      } catch (err) {
+        console.error('Error sending heartbeat:', err);
+      }
+    };
+
+    beat();
+    const beatId = window.setInterval(beat, HEARTBEAT_MS);
+
+    return () => {
+      window.clearInterval(beatId);
+    };
+  }, []);
+};
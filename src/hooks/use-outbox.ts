@@ -0,0 +1,95 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  type CapturePayload,
+  enqueueCapture,
+  getOutboxEntries,
+  countOutboxEntries,
+  removeOutboxEntry,
+  markOutboxEntryFailed,
+  clearOutbox,
+} from '@/lib/outbox'
+import { uploadCapture } from '@/lib/upload'
+
+// How often the outbox is checked for entries that are due for a retry
+const RETRY_POLL_MS = 5000;
+
+// Keeps failed captures in the durable outbox and retries them in the background
+export const useOutbox = () => {
+  const [queueCount, setQueueCount] = useState(0)
+  const [flushing, setFlushing] = useState(false)
+  const flushingRef = useRef(false) // Guards against overlapping retry passes
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setQueueCount(await countOutboxEntries());
+    } catch (err) {
+      console.error('Error reading outbox:', err);
+    }
+  }, []);
+
+  // Retry queued uploads, either only those that are due or all of them when forced
+  const processQueue = useCallback(async (force: boolean) => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    setFlushing(true);
+
+    try {
+      const now = Date.now();
+      const entries = await getOutboxEntries();
+      for (const entry of entries) {
+        if (!force && entry.nextAttemptAt > now) continue;
+
+        const { pendingTargets, error } = await uploadCapture(entry.payload);
+        if (error) {
+          console.error('Retry of queued capture failed:', error);
+          await markOutboxEntryFailed(entry, error, pendingTargets);
+          // The targets are most likely still unreachable, so stop this pass
+          break;
+        }
+        await removeOutboxEntry(entry.id);
+        console.log(`Uploaded queued capture from ${entry.payload.timestamp}`);
+      }
+    } catch (err) {
+      console.error('Error processing outbox:', err);
+    } finally {
+      flushingRef.current = false;
+      setFlushing(false);
+      await refreshCount();
+    }
+  }, [refreshCount]);
+
+  // Add a capture whose upload failed
+  const enqueue = useCallback(async (payload: CapturePayload, error: string) => {
+    await enqueueCapture(payload, error);
+    await refreshCount();
+  }, [refreshCount]);
+
+  const flush = useCallback(() => processQueue(true), [processQueue]);
+
+  // Drop every queued capture
+  const discard = useCallback(async () => {
+    try {
+      await clearOutbox();
+    } catch (err) {
+      console.error('Error clearing outbox:', err);
+    }
+    await refreshCount();
+  }, [refreshCount]);
+
+  // Poll for due retries and retry immediately when the connection comes back
+  useEffect(() => {
+    refreshCount();
+    processQueue(false);
+
+    const pollId = window.setInterval(() => processQueue(false), RETRY_POLL_MS);
+    const onOnline = () => processQueue(true);
+    window.addEventListener('online', onOnline);
+
+    return () => {
+      window.clearInterval(pollId);
+      window.removeEventListener('online', onOnline);
+    };
+  }, [processQueue, refreshCount]);
+
+  return { queueCount, flushing, enqueue, flush, discard };
+};
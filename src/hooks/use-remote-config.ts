@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  fetchRemoteConfiguration,
+  parseRemoteConfiguration,
+  applyRemoteConfiguration,
+  loadAppliedVersion,
+  reportConfigurationStatus,
+  getRawVersion,
+} from '@/lib/remote-config'
+
+// How often the backend is asked for a new configuration
+const CONFIG_POLL_MS = 5 * 60 * 1000;
+
+// Polls the backend for this device's configuration and applies new versions
+export const useRemoteConfig = (onApplied: () => void) => {
+  const [activeVersion, setActiveVersion] = useState<string | null>(loadAppliedVersion)
+  const [error, setError] = useState<string | null>(null)
+  const activeVersionRef = useRef(activeVersion)
+  const rejectedVersionRef = useRef<string | null>(null) // Don't re-validate a document we already rejected
+  const reportedRef = useRef(false) // Report the active version once per session even if unchanged
+  const onAppliedRef = useRef(onApplied)
+
+  useEffect(() => {
+    onAppliedRef.current = onApplied;
+  }, [onApplied]);
+
+  const report = async (version: string | null, reason: string | null) => {
+    try {
+      await reportConfigurationStatus(version, reason);
+    } catch (err) {
+      console.error('Error reporting configuration status:', err);
+    }
+  };
+
+  const checkForUpdate = useCallback(async () => {
+    let raw: unknown;
+    try {
+      raw = await fetchRemoteConfiguration();
+    } catch (err) {
+      console.error('Error fetching remote configuration:', err);
+      return;
+    }
+    if (raw === null) return;
+
+    const version = getRawVersion(raw);
+    if (version !== null && version === activeVersionRef.current) {
+      if (!reportedRef.current) {
+        reportedRef.current = true;
+        await report(version, null);
+      }
+      return;
+    }
+    if (version !== null && version === rejectedVersionRef.current) return;
+
+    try {
+      const config = parseRemoteConfiguration(raw);
+      applyRemoteConfiguration(config);
+      console.log(`Applied remote configuration version ${config.version}`);
+      activeVersionRef.current = config.version;
+      rejectedVersionRef.current = null;
+      reportedRef.current = true;
+      setActiveVersion(config.version);
+      setError(null);
+      onAppliedRef.current();
+      await report(config.version, null);
+    } catch (err) {
+      console.error('Rejected remote configuration:', err);
+      rejectedVersionRef.current = version;
+      setError((err as Error).message);
+      await report(version, (err as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    checkForUpdate();
+    const pollId = window.setInterval(checkForUpdate, CONFIG_POLL_MS);
+
+    return () => {
+      window.clearInterval(pollId);
+    };
+  }, [checkForUpdate]);
+
+  return { activeVersion, error };
+};
@@ -0,0 +1,126 @@
+import { useEffect, useRef, type RefObject } from 'react'
+import { STALL_CHECK_INTERVAL_MS, STALL_TIMEOUT_MS, isCameraConnected } from '@/lib/watchdog'
+
+// Watches a camera stream and reports once when it ends, stays muted or stops delivering frames.
+// Without a stream, the selected camera being plugged in is reported so a failed setup can be retried
+// at once, and it being unplugged is reported as a failure.
+export const useStreamWatchdog = (
+  stream: MediaStream | null,
+  videoRef: RefObject<HTMLVideoElement | null>,
+  deviceId: string | null,
+  enabled: boolean,
+  onFailure: (reason: string) => void,
+  onConnected: () => void
+) => {
+  const onFailureRef = useRef(onFailure)
+  const onConnectedRef = useRef(onConnected)
+
+  useEffect(() => {
+    onFailureRef.current = onFailure;
+    onConnectedRef.current = onConnected;
+  }, [onFailure, onConnected]);
+
+  useEffect(() => {
+    if (!enabled || !navigator.mediaDevices) return;
+
+    if (!stream) {
+      // Other cameras coming and going say nothing about this one, so only a change of the selected one counts
+      let cancelled = false;
+      let connected: boolean | null = null;
+      const checkDevices = async () => {
+        try {
+          const nowConnected = await isCameraConnected(deviceId);
+          if (cancelled) return;
+          if (connected !== null && nowConnected !== connected) {
+            if (nowConnected) {
+              onConnectedRef.current();
+            } else {
+              onFailureRef.current('Camera disconnected');
+            }
+          }
+          connected = nowConnected;
+        } catch (err) {
+          console.error('Error listing cameras:', err);
+        }
+      };
+
+      checkDevices();
+      navigator.mediaDevices.addEventListener('devicechange', checkDevices);
+      return () => {
+        cancelled = true;
+        navigator.mediaDevices.removeEventListener('devicechange', checkDevices);
+      };
+    }
+
+    const track = stream.getVideoTracks()[0];
+    if (!track) return;
+
+    let failed = false;
+    let muteTimer: number | null = null;
+    let lastTime = -1;
+    let lastProgressAt = Date.now();
+
+    const fail = (reason: string) => {
+      if (failed) return;
+      failed = true;
+      onFailureRef.current(reason);
+    };
+
+    const onEnded = () => fail('Camera disconnected');
+
+    // Cameras mute briefly while adjusting, so only a lasting mute counts
+    const onMute = () => {
+      if (muteTimer === null) {
+        muteTimer = window.setTimeout(() => fail('Camera stopped sending frames'), STALL_TIMEOUT_MS);
+      }
+    };
+    const onUnmute = () => {
+      if (muteTimer !== null) {
+        clearTimeout(muteTimer);
+        muteTimer = null;
+      }
+    };
+
+    // The device list changes when any camera is plugged in or out, so check whether it was this one
+    const onDeviceChange = () => {
+      if (track.readyState === 'ended') onEnded();
+    };
+
+    const checkFrames = () => {
+      const video = videoRef.current;
+      if (track.readyState === 'ended') {
+        onEnded();
+        return;
+      }
+      // A paused preview does not advance, which says nothing about the camera
+      if (!video || video.srcObject !== stream || video.paused) {
+        lastProgressAt = Date.now();
+        return;
+      }
+      if (video.videoWidth > 0 && video.currentTime !== lastTime) {
+        lastTime = video.currentTime;
+        lastProgressAt = Date.now();
+        return;
+      }
+      if (Date.now() - lastProgressAt >= STALL_TIMEOUT_MS) {
+        fail('Camera stream stalled');
+      }
+    };
+
+    if (track.muted) onMute();
+    track.addEventListener('ended', onEnded);
+    track.addEventListener('mute', onMute);
+    track.addEventListener('unmute', onUnmute);
+    navigator.mediaDevices.addEventListener('devicechange', onDeviceChange);
+    const checkId = window.setInterval(checkFrames, STALL_CHECK_INTERVAL_MS);
+
+    return () => {
+      track.removeEventListener('ended', onEnded);
+      track.removeEventListener('mute', onMute);
+      track.removeEventListener('unmute', onUnmute);
+      navigator.mediaDevices.removeEventListener('devicechange', onDeviceChange);
+      window.clearInterval(checkId);
+      onUnmute();
+    };
+  }, [stream, videoRef, deviceId, enabled]);
+};
@@ -0,0 +1,145 @@
+import { getDeviceId } from '@/lib/device'
+import { getApiBaseUrl } from '@/lib/runtime-config'
+
+// Device authentication: a pairing code shown by the backend is exchanged once for a bearer token.
+// When the backend also issues a signing key, uploads carry an HMAC of the image hash and the time
+// they were sent, so a captured request cannot be replayed with a different image.
+
+const CREDENTIALS_KEY = 'timelapse.credentials';
+
+export interface DeviceCredentials {
+  token: string;
+  signingKey: string | null; // Base64 HMAC-SHA256 key, null when the backend does not require signatures
+  enrolledAt: string;
+}
+
+interface EnrollmentResponse {
+  token?: unknown;
+  signingKey?: unknown;
+}
+
+export const loadCredentials = (): DeviceCredentials | null => {
+  const raw = localStorage.getItem(CREDENTIALS_KEY);
+  if (!raw) return null;
+
+  try {
+    const credentials = JSON.parse(raw) as DeviceCredentials;
+    return typeof credentials.token === 'string' ? credentials : null;
+  } catch (err) {
+    console.error('Error reading device credentials:', err);
+    return null;
+  }
+};
+
+// Set when the backend rejected a request, so the pairing form is shown
+let pairingRequired = false;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const isPairingRequired = (): boolean => pairingRequired;
+
+// Be told when the device is paired, unpaired or rejected by the backend
+export const subscribeToCredentials = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const clearCredentials = () => {
+  localStorage.removeItem(CREDENTIALS_KEY);
+  notify();
+};
+
+// Exchange a pairing code for a device token
+export const enrollDevice = async (pairingCode: string): Promise<DeviceCredentials> => {
+  const response = await fetch(`${getApiBaseUrl()}/timelapse/enroll`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      deviceId: getDeviceId(),
+      pairingCode,
+      appVersion: __APP_VERSION__,
+    }),
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error('Pairing code was not accepted');
+  }
+  if (!response.ok) {
+    throw new Error(`Server response: ${response.status}`);
+  }
+
+  const body = await response.json() as EnrollmentResponse;
+  if (typeof body.token !== 'string' || !body.token) {
+    throw new Error('Server did not return a device token');
+  }
+
+  const credentials: DeviceCredentials = {
+    token: body.token,
+    signingKey: typeof body.signingKey === 'string' && body.signingKey ? body.signingKey : null,
+    enrolledAt: new Date().toISOString(),
+  };
+  localStorage.setItem(CREDENTIALS_KEY, JSON.stringify(credentials));
+  pairingRequired = false;
+  notify();
+  return credentials;
+};
+
+// Forget a token the backend rejected and ask the operator for a new pairing code. A late rejection
+// of a request sent with an older token must not remove the credentials of a newer pairing.
+const requirePairing = (rejectedToken: string | null) => {
+  if ((loadCredentials()?.token ?? null) !== rejectedToken) return;
+
+  localStorage.removeItem(CREDENTIALS_KEY);
+  pairingRequired = true;
+  notify();
+};
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// SHA-256 of a blob as lowercase hex
+const hashBlob = async (blob: Blob): Promise<string> => {
+  return toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+};
+
+const signMessage = async (signingKey: string, message: string): Promise<string> => {
+  const keyBytes = Uint8Array.from(atob(signingKey), char => char.charCodeAt(0));
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+};
+
+// Authentication headers for a request; the content is hashed and signed only when the device holds a signing key
+const buildAuthHeaders = async (credentials: DeviceCredentials | null, signedContent?: Blob): Promise<Record<string, string>> => {
+  if (!credentials) return {};
+
+  const headers: Record<string, string> = { 'Authorization': `Bearer ${credentials.token}` };
+  if (signedContent && credentials.signingKey) {
+    const contentHash = await hashBlob(signedContent);
+    const signedAt = new Date().toISOString();
+    headers['X-Device-Id'] = getDeviceId();
+    headers['X-Content-SHA256'] = contentHash;
+    headers['X-Signature-Timestamp'] = signedAt;
+    headers['X-Signature'] = await signMessage(credentials.signingKey, `${signedAt}.${contentHash}`);
+  }
+  return headers;
+};
+
+// Fetch with the device token, asking for a new pairing code when the backend rejects it
+export const authorizedFetch = async (url: string, init: RequestInit = {}, signedContent?: Blob): Promise<Response> => {
+  const credentials = loadCredentials();
+  const headers = new Headers(init.headers);
+  Object.entries(await buildAuthHeaders(credentials, signedContent)).forEach(([name, value]) => headers.set(name, value));
+  const response = await fetch(url, { ...init, headers });
+
+  if (response.status === 401) {
+    console.warn('Device token rejected by the backend');
+    requirePairing(credentials?.token ?? null);
+  }
+  return response;
+};
@@ -0,0 +1,95 @@
+import type { CameraControls, ControlCapabilities } from '@/lib/camera-controls'
+
+// Exposure bracketing: each capture takes several frames at different exposures, either uploaded
+// as a tagged group or fused on the device into one frame that keeps both shadows and highlights.
+
+export type BracketOutput = 'group' | 'merge';
+
+export interface BracketingSettings {
+  enabled: boolean;
+  frames: number; // Odd number of exposures centred on the normal one
+  stepEv: number; // Exposure difference between neighbouring frames
+  output: BracketOutput;
+}
+
+export const DEFAULT_BRACKETING: BracketingSettings = {
+  enabled: false,
+  frames: 3,
+  stepEv: 1,
+  output: 'merge',
+};
+
+export const BRACKET_FRAME_OPTIONS = [3, 5];
+export const BRACKET_STEP_OPTIONS = [0.5, 1, 1.5, 2];
+
+// Time for the camera to adjust to a new exposure before a frame is taken
+export const BRACKET_SETTLE_MS = 600;
+
+// Tag sent with each frame of a bracket so the backend can group them
+export interface BracketTag {
+  groupId: string;
+  size: number; // Frames taken for the group
+  exposureOffset: number | null; // EV offset of this frame, null for a frame merged from the whole group
+}
+
+// EV offsets of the frames, darkest first
+export const getBracketOffsets = (settings: BracketingSettings): number[] => {
+  const half = Math.floor(settings.frames / 2);
+  return Array.from({ length: half * 2 + 1 }, (_, index) => (index - half) * settings.stepEv);
+};
+
+// Whether the camera offers a way to change exposure for bracketing
+export const canBracket = (capabilities: ControlCapabilities | null): boolean => {
+  return !!capabilities && (!!capabilities.exposureCompensation || !!capabilities.exposureTime);
+};
+
+// Controls for one frame of a bracket. Manual exposure is bracketed through the exposure time,
+// automatic exposure through compensation, which manual mode ignores.
+export const getBracketControls = (
+  base: CameraControls,
+  offset: number,
+  capabilities: ControlCapabilities
+): CameraControls => {
+  if (base.exposureMode === 'manual' && base.exposureTime !== null && capabilities.exposureTime) {
+    const { min, max } = capabilities.exposureTime;
+    return { ...base, exposureTime: Math.min(max, Math.max(min, base.exposureTime * 2 ** offset)) };
+  }
+  if (capabilities.exposureCompensation) {
+    const { min, max } = capabilities.exposureCompensation;
+    return { ...base, exposureCompensation: Math.min(max, Math.max(min, (base.exposureCompensation ?? 0) + offset)) };
+  }
+  return base;
+};
+
+// Fuse the frames in a worker, since touching every pixel of every frame at full resolution
+// would stall the page for as long as the merge takes
+const mergeInWorker = (frames: ImageData[]) => new Promise<ImageData>((resolve, reject) => {
+  const worker = new Worker(new URL('./exposure-fusion-worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<ImageData>) => {
+    worker.terminate();
+    resolve(event.data);
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    reject(new Error(event.message || 'Exposure merge failed'));
+  };
+  worker.postMessage(frames, frames.map(frame => frame.data.buffer));
+});
+
+// Fuse bracketed frames into a canvas the size of the first one
+export const mergeFrames = async (images: ImageBitmap[]): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = images[0].width;
+  canvas.height = images[0].height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const frames = images.map(image => {
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+  });
+  context.putImageData(await mergeInWorker(frames), 0, 0);
+  return canvas;
+};
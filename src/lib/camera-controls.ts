@@ -0,0 +1,185 @@
+// Manual exposure, focus, white balance, zoom and torch through the Image Capture extensions of
+// MediaStreamTrack. Support differs per browser and camera, so every control is driven by the
+// capabilities the track reports and silently left out when it is missing.
+
+export type ControlMode = 'auto' | 'manual';
+
+export interface CameraControls {
+  exposureMode: ControlMode;
+  exposureTime: number | null; // In 100 µs units, as reported by the track
+  exposureCompensation: number | null;
+  focusMode: ControlMode;
+  focusDistance: number | null;
+  whiteBalanceMode: ControlMode;
+  colorTemperature: number | null; // Kelvin
+  zoom: number | null;
+  torch: boolean;
+  lockDuringCapture: boolean; // Freeze automatic exposure, focus and white balance while capturing
+}
+
+export const DEFAULT_CAMERA_CONTROLS: CameraControls = {
+  exposureMode: 'auto',
+  exposureTime: null,
+  exposureCompensation: null,
+  focusMode: 'auto',
+  focusDistance: null,
+  whiteBalanceMode: 'auto',
+  colorTemperature: null,
+  zoom: null,
+  torch: false,
+  lockDuringCapture: true,
+};
+
+export interface ControlRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// What the current track supports, null ranges mark missing controls
+export interface ControlCapabilities {
+  exposureModes: string[];
+  exposureTime: ControlRange | null;
+  exposureCompensation: ControlRange | null;
+  focusModes: string[];
+  focusDistance: ControlRange | null;
+  whiteBalanceModes: string[];
+  colorTemperature: ControlRange | null;
+  zoom: ControlRange | null;
+  torch: boolean;
+}
+
+// Image Capture fields missing from the DOM typings
+interface ExtendedCapabilities {
+  exposureMode?: string[];
+  exposureTime?: Partial<ControlRange>;
+  exposureCompensation?: Partial<ControlRange>;
+  focusMode?: string[];
+  focusDistance?: Partial<ControlRange>;
+  whiteBalanceMode?: string[];
+  colorTemperature?: Partial<ControlRange>;
+  zoom?: Partial<ControlRange>;
+  torch?: boolean;
+}
+
+interface ExtendedSettings {
+  exposureTime?: number;
+  focusDistance?: number;
+  colorTemperature?: number;
+}
+
+const toRange = (range?: Partial<ControlRange>): ControlRange | null => {
+  if (!range || typeof range.min !== 'number' || typeof range.max !== 'number' || range.min >= range.max) {
+    return null;
+  }
+  return { min: range.min, max: range.max, step: range.step || (range.max - range.min) / 100 };
+};
+
+const clamp = (value: number, range: ControlRange) => Math.min(range.max, Math.max(range.min, value));
+
+// Controls supported by a track; null when the browser cannot report capabilities at all
+export const getControlCapabilities = (track: MediaStreamTrack): ControlCapabilities | null => {
+  if (typeof track.getCapabilities !== 'function') return null;
+
+  const capabilities = track.getCapabilities() as ExtendedCapabilities;
+  return {
+    exposureModes: capabilities.exposureMode ?? [],
+    exposureTime: toRange(capabilities.exposureTime),
+    exposureCompensation: toRange(capabilities.exposureCompensation),
+    focusModes: capabilities.focusMode ?? [],
+    focusDistance: toRange(capabilities.focusDistance),
+    whiteBalanceModes: capabilities.whiteBalanceMode ?? [],
+    colorTemperature: toRange(capabilities.colorTemperature),
+    zoom: toRange(capabilities.zoom),
+    torch: capabilities.torch === true,
+  };
+};
+
+export const hasAnyControl = (capabilities: ControlCapabilities): boolean => {
+  return capabilities.exposureModes.length > 0 || !!capabilities.exposureCompensation
+    || capabilities.focusModes.length > 0 || capabilities.whiteBalanceModes.length > 0
+    || !!capabilities.zoom || capabilities.torch;
+};
+
+// Mode constraint for a control, preferring continuous automatic adjustment over a one-off one
+const modeConstraint = (mode: ControlMode, supported: string[]): string | undefined => {
+  if (mode === 'manual') return supported.includes('manual') ? 'manual' : undefined;
+  return ['continuous', 'single-shot'].find(candidate => supported.includes(candidate));
+};
+
+// Constraints for the supported subset of the controls
+const buildControlConstraints = (controls: CameraControls, capabilities: ControlCapabilities): Record<string, unknown> => {
+  const constraints: Record<string, unknown> = {};
+
+  const exposureMode = modeConstraint(controls.exposureMode, capabilities.exposureModes);
+  if (exposureMode) constraints.exposureMode = exposureMode;
+  if (exposureMode === 'manual' && capabilities.exposureTime && controls.exposureTime !== null) {
+    constraints.exposureTime = clamp(controls.exposureTime, capabilities.exposureTime);
+  }
+  if (capabilities.exposureCompensation && controls.exposureCompensation !== null) {
+    constraints.exposureCompensation = clamp(controls.exposureCompensation, capabilities.exposureCompensation);
+  }
+
+  const focusMode = modeConstraint(controls.focusMode, capabilities.focusModes);
+  if (focusMode) constraints.focusMode = focusMode;
+  if (focusMode === 'manual' && capabilities.focusDistance && controls.focusDistance !== null) {
+    constraints.focusDistance = clamp(controls.focusDistance, capabilities.focusDistance);
+  }
+
+  const whiteBalanceMode = modeConstraint(controls.whiteBalanceMode, capabilities.whiteBalanceModes);
+  if (whiteBalanceMode) constraints.whiteBalanceMode = whiteBalanceMode;
+  if (whiteBalanceMode === 'manual' && capabilities.colorTemperature && controls.colorTemperature !== null) {
+    constraints.colorTemperature = clamp(controls.colorTemperature, capabilities.colorTemperature);
+  }
+
+  if (capabilities.zoom && controls.zoom !== null) {
+    constraints.zoom = clamp(controls.zoom, capabilities.zoom);
+  }
+  if (capabilities.torch) {
+    constraints.torch = controls.torch;
+  }
+
+  return constraints;
+};
+
+// Apply the controls to a track, keeping the resolution and device it was opened with
+export const applyCameraControls = async (track: MediaStreamTrack, controls: CameraControls): Promise<void> => {
+  const capabilities = getControlCapabilities(track);
+  if (!capabilities) return;
+
+  const constraints = buildControlConstraints(controls, capabilities);
+  if (Object.keys(constraints).length === 0) return;
+
+  // applyConstraints replaces every constraint, so start from the ones the track was opened with
+  await track.applyConstraints({ ...track.getConstraints(), advanced: [constraints as MediaTrackConstraintSet] });
+};
+
+// Controls with every automatic setting replaced by the value the camera currently uses
+export const getLockedControls = (track: MediaStreamTrack, controls: CameraControls): CameraControls => {
+  const capabilities = getControlCapabilities(track);
+  if (!capabilities) return controls;
+
+  const settings = track.getSettings() as ExtendedSettings;
+  const locked = { ...controls };
+
+  if (controls.exposureMode === 'auto' && capabilities.exposureModes.includes('manual') && settings.exposureTime !== undefined) {
+    locked.exposureMode = 'manual';
+    locked.exposureTime = settings.exposureTime;
+  }
+  if (controls.focusMode === 'auto' && capabilities.focusModes.includes('manual') && settings.focusDistance !== undefined) {
+    locked.focusMode = 'manual';
+    locked.focusDistance = settings.focusDistance;
+  }
+  if (controls.whiteBalanceMode === 'auto' && capabilities.whiteBalanceModes.includes('manual') && settings.colorTemperature !== undefined) {
+    locked.whiteBalanceMode = 'manual';
+    locked.colorTemperature = settings.colorTemperature;
+  }
+
+  return locked;
+};
+
+// Current value of a ranged control, used to start a slider where the camera already is
+export const getCurrentControlValue = (track: MediaStreamTrack, key: 'exposureTime' | 'focusDistance' | 'colorTemperature' | 'zoom' | 'exposureCompensation'): number | null => {
+  const value = (track.getSettings() as Record<string, unknown>)[key];
+  return typeof value === 'number' ? value : null;
+};
@@ -0,0 +1,100 @@
+// Camera selection and per-device capture profiles, remembered in local storage
+
+const CAMERAS_KEY = 'timelapse.cameras';
+const PROFILES_KEY = 'timelapse.camera.profiles';
+
+const selectedDeviceKey = (cameraId: string) => `timelapse.camera.${cameraId}.deviceId`;
+
+// Resolution and frame rate requested from a camera
+export interface CameraProfile {
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const DEFAULT_PROFILE: CameraProfile = {
+  width: 1280,
+  height: 720,
+  frameRate: 30,
+};
+
+export const RESOLUTION_PRESETS = [
+  { label: '640 x 480', width: 640, height: 480 },
+  { label: '1280 x 720 (HD)', width: 1280, height: 720 },
+  { label: '1920 x 1080 (Full HD)', width: 1920, height: 1080 },
+  { label: '2560 x 1440 (QHD)', width: 2560, height: 1440 },
+  { label: '3840 x 2160 (4K)', width: 3840, height: 2160 },
+];
+
+export const FRAME_RATE_PRESETS = [5, 15, 24, 30, 60];
+
+// Read a JSON value from local storage, falling back when missing or corrupt
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (err) {
+    console.error(`Error reading ${key} from storage:`, err);
+    return fallback;
+  }
+};
+
+// Identifiers of the cameras shown on the page, each one tagging its own uploads
+export const loadCameraIds = (): string[] => {
+  const ids = readJson<string[]>(CAMERAS_KEY, []);
+  return ids.length > 0 ? ids : ['camera-1'];
+};
+
+export const saveCameraIds = (ids: string[]) => {
+  localStorage.setItem(CAMERAS_KEY, JSON.stringify(ids));
+};
+
+// Lowest camera-N identifier not already in use
+export const nextCameraId = (ids: string[]): string => {
+  let index = 1;
+  while (ids.includes(`camera-${index}`)) index++;
+  return `camera-${index}`;
+};
+
+export const loadSelectedDeviceId = (cameraId: string): string | null => {
+  return localStorage.getItem(selectedDeviceKey(cameraId));
+};
+
+export const saveSelectedDeviceId = (cameraId: string, deviceId: string | null) => {
+  if (deviceId) {
+    localStorage.setItem(selectedDeviceKey(cameraId), deviceId);
+  } else {
+    localStorage.removeItem(selectedDeviceKey(cameraId));
+  }
+};
+
+// Profiles keyed by deviceId
+export const loadProfiles = (): Record<string, CameraProfile> => {
+  return readJson<Record<string, CameraProfile>>(PROFILES_KEY, {});
+};
+
+export const saveProfiles = (profiles: Record<string, CameraProfile>) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// Store the profile of one device, re-reading the others so changes made by other cameras are kept
+export const saveProfile = (key: string, profile: CameraProfile) => {
+  saveProfiles({ ...loadProfiles(), [key]: profile });
+};
+
+// Build getUserMedia video constraints for a device, or the preferred rear camera when none is chosen
+export const buildVideoConstraints = (deviceId: string | null, profile: CameraProfile): MediaTrackConstraints => {
+  const constraints: MediaTrackConstraints = {
+    width: { ideal: profile.width },
+    height: { ideal: profile.height },
+    frameRate: { ideal: profile.frameRate },
+  };
+
+  if (deviceId) {
+    constraints.deviceId = { exact: deviceId };
+  } else {
+    constraints.facingMode = 'environment'; // Prefer rear camera if available
+  }
+
+  return constraints;
+};
@@ -0,0 +1,109 @@
+import { type CaptureSchedule, DEFAULT_SCHEDULE } from '@/lib/schedule'
+import { type OutputSettings, DEFAULT_OUTPUT_SETTINGS } from '@/lib/output-settings'
+import type { TimingMode, MissedSlotPolicy } from '@/lib/capture-timing'
+import { type CaptureMode, type MotionSettings, DEFAULT_MOTION_SETTINGS } from '@/lib/motion'
+import { type FrameQualitySettings, DEFAULT_FRAME_QUALITY } from '@/lib/frame-quality'
+import { type WatermarkSettings, DEFAULT_WATERMARK } from '@/lib/watermark'
+import { type FrameTransform, DEFAULT_TRANSFORM } from '@/lib/transform'
+import { type CameraControls, DEFAULT_CAMERA_CONTROLS } from '@/lib/camera-controls'
+import { type BracketingSettings, DEFAULT_BRACKETING } from '@/lib/bracketing'
+import { type MetadataSettings, DEFAULT_METADATA_SETTINGS } from '@/lib/capture-metadata'
+
+// Capture settings of a single camera, persisted in local storage so unattended devices recover after a restart
+
+export type IntervalUnit = 'seconds' | 'minutes' | 'hours';
+
+export interface CameraSettings {
+  intervalValue: number;
+  intervalUnit: IntervalUnit;
+  timingMode: TimingMode;
+  missedSlotPolicy: MissedSlotPolicy;
+  schedule: CaptureSchedule;
+  powerSaving: boolean;
+  outputSettings: OutputSettings;
+  autoResume: boolean; // Restart automatic capture after a reload if it was running
+  captureMode: CaptureMode; // Capture on a fixed interval or when motion is detected
+  motion: MotionSettings;
+  frameQuality: FrameQualitySettings;
+  watermark: WatermarkSettings;
+  transform: FrameTransform; // Rotation, flip and crop for how the camera is mounted
+  controls: CameraControls;
+  stillCapture: boolean; // Take full-resolution photos instead of grabbing video frames where supported
+  bracketing: BracketingSettings;
+  metadata: MetadataSettings; // Location, camera and device details sent with frames and written as EXIF
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  intervalValue: 5,
+  intervalUnit: 'seconds',
+  timingMode: 'relative',
+  missedSlotPolicy: 'skip',
+  schedule: DEFAULT_SCHEDULE,
+  powerSaving: false,
+  outputSettings: DEFAULT_OUTPUT_SETTINGS,
+  autoResume: false,
+  captureMode: 'interval',
+  motion: DEFAULT_MOTION_SETTINGS,
+  frameQuality: DEFAULT_FRAME_QUALITY,
+  watermark: DEFAULT_WATERMARK,
+  transform: DEFAULT_TRANSFORM,
+  controls: DEFAULT_CAMERA_CONTROLS,
+  stillCapture: false,
+  bracketing: DEFAULT_BRACKETING,
+  metadata: DEFAULT_METADATA_SETTINGS,
+};
+
+const settingsKey = (cameraId: string) => `timelapse.camera.${cameraId}.settings`;
+const capturingKey = (cameraId: string) => `timelapse.camera.${cameraId}.capturing`;
+
+// Interval in milliseconds for a value and unit
+export const toIntervalMs = (value: number, unit: IntervalUnit): number => {
+  let ms = value * 1000;
+  if (unit === 'minutes') ms *= 60;
+  if (unit === 'hours') ms *= 3600;
+  return ms;
+};
+
+// Fill in fields missing from settings saved by an older version
+export const withDefaults = (settings: Partial<CameraSettings>): CameraSettings => ({
+  ...DEFAULT_CAMERA_SETTINGS,
+  ...settings,
+  schedule: { ...DEFAULT_SCHEDULE, ...settings.schedule },
+  outputSettings: { ...DEFAULT_OUTPUT_SETTINGS, ...settings.outputSettings },
+  motion: { ...DEFAULT_MOTION_SETTINGS, ...settings.motion },
+  frameQuality: { ...DEFAULT_FRAME_QUALITY, ...settings.frameQuality },
+  watermark: { ...DEFAULT_WATERMARK, ...settings.watermark },
+  transform: { ...DEFAULT_TRANSFORM, ...settings.transform },
+  controls: { ...DEFAULT_CAMERA_CONTROLS, ...settings.controls },
+  bracketing: { ...DEFAULT_BRACKETING, ...settings.bracketing },
+  metadata: { ...DEFAULT_METADATA_SETTINGS, ...settings.metadata },
+});
+
+export const loadCameraSettings = (cameraId: string): CameraSettings => {
+  try {
+    const raw = localStorage.getItem(settingsKey(cameraId));
+    return raw ? withDefaults(JSON.parse(raw)) : DEFAULT_CAMERA_SETTINGS;
+  } catch (err) {
+    console.error(`Error reading settings of ${cameraId}:`, err);
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (cameraId: string, settings: CameraSettings) => {
+  localStorage.setItem(settingsKey(cameraId), JSON.stringify(settings));
+};
+
+// Whether automatic capture was running when the page was last open
+export const loadCapturingState = (cameraId: string): boolean => {
+  return localStorage.getItem(capturingKey(cameraId)) === 'true';
+};
+
+export const saveCapturingState = (cameraId: string, capturing: boolean) => {
+  localStorage.setItem(capturingKey(cameraId), String(capturing));
+};
+
+// Forget everything stored for a removed camera
+export const clearCameraSettings = (cameraId: string) => {
+  localStorage.removeItem(settingsKey(cameraId));
+  localStorage.removeItem(capturingKey(cameraId));
+};
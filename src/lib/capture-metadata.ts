@@ -0,0 +1,117 @@
+// Optional metadata describing where, how and with what a frame was taken. It is sent with the
+// upload and can also be written into JPEG frames as EXIF for tools that only see the file.
+
+export interface MetadataSettings {
+  enabled: boolean;
+  includeLocation: boolean; // Ask the browser for a GPS position, which needs permission
+  embedExif: boolean; // Write the metadata into JPEG frames
+}
+
+export const DEFAULT_METADATA_SETTINGS: MetadataSettings = {
+  enabled: false,
+  includeLocation: false,
+  embedExif: true,
+};
+
+export interface CaptureLocation {
+  latitude: number;
+  longitude: number;
+  altitude: number | null; // Metres above the WGS84 ellipsoid
+  accuracy: number; // Metres
+}
+
+// Settings the camera track actually runs with, which can differ from what was requested
+export interface TrackDetails {
+  width: number | null;
+  height: number | null;
+  frameRate: number | null;
+  exposureMode: string | null;
+  exposureTime: number | null; // In 100 µs units, as reported by the track
+  whiteBalanceMode: string | null;
+  colorTemperature: number | null;
+  focusMode: string | null;
+  zoom: number | null;
+}
+
+export interface CaptureMetadata {
+  location: CaptureLocation | null;
+  cameraLabel: string | null;
+  track: TrackDetails | null;
+  userAgent: string;
+  timeZone: string;
+  timezoneOffsetMinutes: number; // Local time minus UTC when the frame was taken
+}
+
+// Positions are refreshed after this long, a mounted camera does not move between frames
+const LOCATION_MAX_AGE_MS = 10 * 60 * 1000;
+const LOCATION_TIMEOUT_MS = 10 * 1000;
+
+let lastLocation: { location: CaptureLocation; at: number } | null = null;
+let locationRequest: Promise<void> | null = null;
+
+// Ask for a fresh position in the background unless the last one is recent or a request is running.
+// Captures never wait for it, they use whatever position is known when they are taken.
+export const refreshLocation = () => {
+  if (locationRequest || !navigator.geolocation) return;
+  if (lastLocation && Date.now() - lastLocation.at < LOCATION_MAX_AGE_MS) return;
+
+  locationRequest = new Promise<GeolocationPosition>((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      maximumAge: LOCATION_MAX_AGE_MS,
+      timeout: LOCATION_TIMEOUT_MS,
+    });
+  })
+    .then(position => {
+      lastLocation = {
+        location: {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          altitude: position.coords.altitude,
+          accuracy: position.coords.accuracy,
+        },
+        at: Date.now(),
+      };
+    })
+    .catch(err => console.error('Error reading geolocation:', err))
+    .finally(() => {
+      locationRequest = null;
+    });
+};
+
+// Last known position, or null until one has been read; an outdated one is kept rather than none
+export const getCachedLocation = (): CaptureLocation | null => {
+  refreshLocation();
+  return lastLocation?.location ?? null;
+};
+
+const numberOrNull = (value: unknown) => typeof value === 'number' ? value : null;
+const stringOrNull = (value: unknown) => typeof value === 'string' ? value : null;
+
+export const getTrackDetails = (track: MediaStreamTrack): TrackDetails => {
+  const settings = track.getSettings() as Record<string, unknown>;
+  return {
+    width: numberOrNull(settings.width),
+    height: numberOrNull(settings.height),
+    frameRate: numberOrNull(settings.frameRate),
+    exposureMode: stringOrNull(settings.exposureMode),
+    exposureTime: numberOrNull(settings.exposureTime),
+    whiteBalanceMode: stringOrNull(settings.whiteBalanceMode),
+    colorTemperature: numberOrNull(settings.colorTemperature),
+    focusMode: stringOrNull(settings.focusMode),
+    zoom: numberOrNull(settings.zoom),
+  };
+};
+
+// Gather the metadata for a frame taken at the given time
+export const collectMetadata = (
+  track: MediaStreamTrack | null,
+  settings: MetadataSettings,
+  capturedAt: Date
+): CaptureMetadata => ({
+  location: settings.includeLocation ? getCachedLocation() : null,
+  cameraLabel: track?.label || null,
+  track: track ? getTrackDetails(track) : null,
+  userAgent: navigator.userAgent,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  timezoneOffsetMinutes: -capturedAt.getTimezoneOffset(),
+});
@@ -0,0 +1,57 @@
+// Slot arithmetic for the capture loop.
+// Captures are planned as a series of absolute slot times, so the time a capture takes never shifts later slots.
+
+// relative: every interval counted from when capturing started
+// aligned: on wall-clock boundaries counted from local midnight (e.g. :00, :05, :10 for 5 minutes)
+export type TimingMode = 'relative' | 'aligned';
+
+// What to do when the timer fires well after its slot, e.g. after tab throttling or sleep
+export type MissedSlotPolicy = 'skip' | 'catch-up';
+
+// A timer firing later than this counts as a missed slot
+export const getLateTolerance = (intervalMs: number) => Math.min(intervalMs / 2, 30000);
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+const startOfNextDay = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+};
+
+// Latest clock boundary at or before the given time
+const getAlignedSlotAtOrBefore = (time: number, intervalMs: number) => {
+  const dayStart = startOfDay(time);
+  return dayStart + Math.floor((time - dayStart) / intervalMs) * intervalMs;
+};
+
+// Earliest clock boundary after the given time; every day restarts at midnight
+const getAlignedSlotAfter = (time: number, intervalMs: number) => {
+  const dayStart = startOfDay(time);
+  const next = dayStart + (Math.floor((time - dayStart) / intervalMs) + 1) * intervalMs;
+  return Math.min(next, startOfNextDay(time));
+};
+
+// Slot following `slot`
+export const getNextSlot = (mode: TimingMode, slot: number, intervalMs: number): number => {
+  return mode === 'aligned' ? getAlignedSlotAfter(slot, intervalMs) : slot + intervalMs;
+};
+
+// First slot at or after `time`, continuing the series that `slot` belongs to
+export const getFirstSlotFrom = (mode: TimingMode, slot: number, time: number, intervalMs: number): number => {
+  if (mode === 'aligned') {
+    const previous = getAlignedSlotAtOrBefore(time, intervalMs);
+    return previous === time ? time : getAlignedSlotAfter(time, intervalMs);
+  }
+  return slot + Math.max(0, Math.ceil((time - slot) / intervalMs)) * intervalMs;
+};
+
+// Most recent slot at or before `time`, continuing the series that `slot` belongs to
+export const getLatestSlot = (mode: TimingMode, slot: number, time: number, intervalMs: number): number => {
+  if (mode === 'aligned') {
+    return getAlignedSlotAtOrBefore(time, intervalMs);
+  }
+  return slot + Math.max(0, Math.floor((time - slot) / intervalMs)) * intervalMs;
+};
@@ -0,0 +1,118 @@
+import {
+  type CameraProfile,
+  loadCameraIds,
+  saveCameraIds,
+  loadSelectedDeviceId,
+  saveSelectedDeviceId,
+  loadProfiles,
+  saveProfiles,
+} from '@/lib/camera-profiles'
+import { type CameraSettings, loadCameraSettings, saveCameraSettings, withDefaults } from '@/lib/camera-settings'
+import { validateCameraSettings, isValidProfile } from '@/lib/remote-config'
+
+// Import/export of the complete stored configuration as a JSON document
+
+const CONFIGURATION_VERSION = 1;
+
+export interface ExportedCamera {
+  id: string;
+  deviceId: string | null;
+  settings: CameraSettings;
+}
+
+export interface ExportedConfiguration {
+  version: number;
+  exportedAt: string;
+  cameras: ExportedCamera[];
+  profiles: Record<string, CameraProfile>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Snapshot of everything currently stored
+export const exportConfiguration = (): ExportedConfiguration => ({
+  version: CONFIGURATION_VERSION,
+  exportedAt: new Date().toISOString(),
+  cameras: loadCameraIds().map(id => ({
+    id,
+    deviceId: loadSelectedDeviceId(id),
+    settings: loadCameraSettings(id),
+  })),
+  profiles: loadProfiles(),
+});
+
+// Parse and validate an exported document, throwing a readable error when it is not one
+export const parseConfiguration = (text: string): ExportedConfiguration => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isObject(data)) {
+    throw new Error('File is not a configuration export');
+  }
+
+  if (data.version !== CONFIGURATION_VERSION) {
+    throw new Error(`Unsupported configuration version: ${data.version}`);
+  }
+  if (!Array.isArray(data.cameras) || data.cameras.length === 0) {
+    throw new Error('Configuration contains no cameras');
+  }
+
+  // Check everything up front so a bad file is rejected before anything is stored
+  const errors: string[] = [];
+  const cameras = data.cameras as unknown[];
+  cameras.forEach((camera, index) => {
+    const path = `cameras[${index}]`;
+    if (!isObject(camera) || typeof camera.id !== 'string' || !camera.id) {
+      errors.push(`${path}.id is required`);
+      return;
+    }
+    // Cameras are keyed by id in storage and in the page, so two with the same id would share state
+    if (cameras.some((other, otherIndex) => otherIndex < index && isObject(other) && other.id === camera.id)) {
+      errors.push(`${path}.id ${camera.id} is used more than once`);
+    }
+    if (camera.deviceId !== undefined && camera.deviceId !== null && typeof camera.deviceId !== 'string') {
+      errors.push(`${path}.deviceId must be a string or null`);
+    }
+    if (camera.settings !== undefined) {
+      validateCameraSettings(camera.settings, `${path}.settings`, errors);
+    }
+  });
+  if (data.profiles !== undefined) {
+    if (!isObject(data.profiles)) {
+      errors.push('profiles must be an object');
+    } else {
+      Object.entries(data.profiles).forEach(([key, profile]) => {
+        if (!isValidProfile(profile)) errors.push(`profiles[${key}] needs positive width, height and frameRate`);
+      });
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  return {
+    version: CONFIGURATION_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    cameras: (cameras as Partial<ExportedCamera>[]).map(camera => ({
+      id: camera.id as string,
+      deviceId: camera.deviceId ?? null,
+      settings: withDefaults(camera.settings ?? {}),
+    })),
+    profiles: (data.profiles ?? {}) as Record<string, CameraProfile>,
+  };
+};
+
+// Replace the stored configuration; takes effect once the cameras are remounted
+export const applyConfiguration = (config: ExportedConfiguration) => {
+  saveCameraIds(config.cameras.map(camera => camera.id));
+  saveProfiles(config.profiles);
+  for (const camera of config.cameras) {
+    saveSelectedDeviceId(camera.id, camera.deviceId);
+    saveCameraSettings(camera.id, camera.settings);
+  }
+};
@@ -0,0 +1,58 @@
+// Shared IndexedDB database for data that must survive page reloads
+
+const DB_NAME = 'timelapse-camera';
+const DB_VERSION = 3;
+
+export const OUTBOX_STORE = 'outbox';
+export const FRAMES_STORE = 'frames';
+export const THUMBNAILS_STORE = 'thumbnails';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wrap an IDBRequest in a promise
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Open (and upgrade if needed) the database, reusing the connection across calls
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(FRAMES_STORE)) {
+          const frames = db.createObjectStore(FRAMES_STORE, { keyPath: 'id', autoIncrement: true });
+          frames.createIndex('camera_timestamp', ['cameraId', 'timestamp']);
+        }
+        if (!db.objectStoreNames.contains(THUMBNAILS_STORE)) {
+          const thumbnails = db.createObjectStore(THUMBNAILS_STORE, { keyPath: 'id' });
+          thumbnails.createIndex('camera_timestamp', ['cameraId', 'timestamp']);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a callback against a store inside a single transaction
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(callback(transaction.objectStore(storeName)));
+};
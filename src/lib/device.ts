@@ -0,0 +1,13 @@
+// Identity of this browser installation as seen by the backend
+
+const DEVICE_ID_KEY = 'timelapse.deviceId';
+
+// Stable identifier generated on first use and kept in local storage
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
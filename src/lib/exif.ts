@@ -0,0 +1,205 @@
+import type { CaptureMetadata } from '@/lib/capture-metadata'
+
+// Minimal EXIF writer for JPEG frames: capture time with its UTC offset, camera, exposure, frame
+// size and GPS position, in a little-endian TIFF structure inserted as an APP1 segment.
+
+// TIFF field types
+const BYTE = 1;
+const ASCII = 2;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+
+interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array; // Value bytes, little-endian
+}
+
+type Rational = [number, number];
+
+const bytes = (length: number, write: (view: DataView) => void): Uint8Array => {
+  const data = new Uint8Array(length);
+  write(new DataView(data.buffer));
+  return data;
+};
+
+// EXIF text is ASCII only, so other characters are dropped
+const ascii = (tag: number, text: string): ExifEntry => {
+  const clean = text.replace(/[^\x20-\x7e]/g, '').trim();
+  const data = new Uint8Array(clean.length + 1);
+  for (let i = 0; i < clean.length; i++) data[i] = clean.charCodeAt(i);
+  return { tag, type: ASCII, count: data.length, data };
+};
+
+const byteValues = (tag: number, values: number[]): ExifEntry => ({
+  tag, type: BYTE, count: values.length, data: Uint8Array.from(values),
+});
+
+const long = (tag: number, value: number): ExifEntry => ({
+  tag, type: LONG, count: 1, data: bytes(4, view => view.setUint32(0, value, true)),
+});
+
+const rationals = (tag: number, values: Rational[]): ExifEntry => ({
+  tag,
+  type: RATIONAL,
+  count: values.length,
+  data: bytes(values.length * 8, view => values.forEach(([numerator, denominator], index) => {
+    view.setUint32(index * 8, Math.round(numerator), true);
+    view.setUint32(index * 8 + 4, denominator, true);
+  })),
+});
+
+const toRational = (value: number, denominator = 10000): Rational => [Math.round(Math.abs(value) * denominator), denominator];
+
+// Degrees as degrees, minutes and hundredths of seconds
+const toDms = (value: number): Rational[] => {
+  const absolute = Math.abs(value);
+  const degrees = Math.floor(absolute);
+  const minutes = Math.floor((absolute - degrees) * 60);
+  const seconds = ((absolute - degrees) * 60 - minutes) * 60;
+  return [[degrees, 1], [minutes, 1], [Math.round(seconds * 100), 100]];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// EXIF date format in local time: YYYY:MM:DD HH:MM:SS
+const formatExifDate = (date: Date) => {
+  return `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+// UTC offset of local time as +HH:MM
+const formatOffset = (offsetMinutes: number) => {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+// Bytes an IFD takes, including values too large to fit in their entry
+const ifdSize = (entries: ExifEntry[]) => {
+  return 2 + entries.length * 12 + 4 + entries.reduce((sum, entry) => sum + (entry.data.length > 4 ? entry.data.length + (entry.data.length % 2) : 0), 0);
+};
+
+// Write an IFD at the given offset of the TIFF structure, entries sorted by tag as the format requires
+const writeIfd = (tiff: Uint8Array, offset: number, entries: ExifEntry[]) => {
+  const view = new DataView(tiff.buffer);
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  view.setUint16(offset, sorted.length, true);
+  sorted.forEach((entry, index) => {
+    const position = offset + 2 + index * 12;
+    view.setUint16(position, entry.tag, true);
+    view.setUint16(position + 2, entry.type, true);
+    view.setUint32(position + 4, entry.count, true);
+    if (entry.data.length <= 4) {
+      tiff.set(entry.data, position + 8);
+    } else {
+      view.setUint32(position + 8, dataOffset, true);
+      tiff.set(entry.data, dataOffset);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, true); // No further IFD
+};
+
+// TIFF structure holding the EXIF tags for a frame
+export const buildExif = (metadata: CaptureMetadata, capturedAt: Date, width: number, height: number): Uint8Array => {
+  const offset = formatOffset(metadata.timezoneOffsetMinutes);
+  const ifd0: ExifEntry[] = [
+    ascii(0x0131, `Timelapse Camera ${__APP_VERSION__}`), // Software
+    ascii(0x0132, formatExifDate(capturedAt)), // DateTime
+  ];
+  if (metadata.cameraLabel) {
+    ifd0.push(ascii(0x0110, metadata.cameraLabel)); // Model
+  }
+
+  const exifIfd: ExifEntry[] = [
+    { tag: 0x9000, type: UNDEFINED, count: 4, data: Uint8Array.from('0232', char => char.charCodeAt(0)) }, // ExifVersion
+    ascii(0x9003, formatExifDate(capturedAt)), // DateTimeOriginal
+    ascii(0x9010, offset), // OffsetTime
+    ascii(0x9011, offset), // OffsetTimeOriginal
+    long(0xa002, width), // PixelXDimension
+    long(0xa003, height), // PixelYDimension
+  ];
+  if (metadata.track?.exposureTime) {
+    // The track reports 100 µs units, EXIF wants seconds
+    exifIfd.push(rationals(0x829a, [[metadata.track.exposureTime, 10000]])); // ExposureTime
+  }
+
+  const location = metadata.location;
+  const gpsIfd: ExifEntry[] = [];
+  if (location) {
+    const utc = capturedAt.toISOString();
+    gpsIfd.push(
+      byteValues(0x0000, [2, 3, 0, 0]), // GPSVersionID
+      ascii(0x0001, location.latitude < 0 ? 'S' : 'N'),
+      rationals(0x0002, toDms(location.latitude)),
+      ascii(0x0003, location.longitude < 0 ? 'W' : 'E'),
+      rationals(0x0004, toDms(location.longitude)),
+      rationals(0x0007, [[capturedAt.getUTCHours(), 1], [capturedAt.getUTCMinutes(), 1], [capturedAt.getUTCSeconds(), 1]]), // GPSTimeStamp
+      ascii(0x001d, utc.slice(0, 10).replace(/-/g, ':')), // GPSDateStamp
+      rationals(0x001f, [toRational(location.accuracy, 100)]), // GPSHPositioningError
+    );
+    if (location.altitude !== null) {
+      gpsIfd.push(
+        byteValues(0x0005, [location.altitude < 0 ? 1 : 0]), // GPSAltitudeRef
+        rationals(0x0006, [toRational(location.altitude, 100)]),
+      );
+    }
+  }
+
+  // Pointers to the EXIF and GPS IFDs have a fixed size, so every offset is known before writing
+  ifd0.push(long(0x8769, 0));
+  if (gpsIfd.length > 0) ifd0.push(long(0x8825, 0));
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + ifdSize(exifIfd);
+  ifd0[ifd0.findIndex(entry => entry.tag === 0x8769)] = long(0x8769, exifOffset);
+  if (gpsIfd.length > 0) {
+    ifd0[ifd0.findIndex(entry => entry.tag === 0x8825)] = long(0x8825, gpsOffset);
+  }
+
+  const tiff = new Uint8Array(gpsOffset + (gpsIfd.length > 0 ? ifdSize(gpsIfd) : 0));
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x49, 0x49]); // "II", little-endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifd0Offset, true);
+  writeIfd(tiff, ifd0Offset, ifd0);
+  writeIfd(tiff, exifOffset, exifIfd);
+  if (gpsIfd.length > 0) writeIfd(tiff, gpsOffset, gpsIfd);
+  return tiff;
+};
+
+// Insert an EXIF segment into a JPEG, after the JFIF header browsers write first
+export const embedExif = async (
+  jpeg: Blob,
+  metadata: CaptureMetadata,
+  capturedAt: Date,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const data = new Uint8Array(await jpeg.arrayBuffer());
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error('Not a JPEG image');
+  }
+
+  const tiff = buildExif(metadata, capturedAt, width, height);
+  const segment = new Uint8Array(10 + tiff.length);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1); // APP1 marker
+  view.setUint16(2, 8 + tiff.length); // Segment length, counting itself
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4); // "Exif\0\0"
+  segment.set(tiff, 10);
+  if (segment.length - 2 > 0xffff) {
+    throw new Error('EXIF data too large');
+  }
+
+  let insertAt = 2;
+  if (data[2] === 0xff && data[3] === 0xe0) {
+    insertAt = 4 + ((data[4] << 8) | data[5]);
+  }
+  return new Blob([data.subarray(0, insertAt), segment, data.subarray(insertAt)], { type: 'image/jpeg' });
+};
@@ -0,0 +1,47 @@
+// Worker that fuses the frames of an exposure bracket off the main thread.
+// Receives the frames as ImageData and posts back the merged ImageData.
+
+// Spread of the weighting curve around mid-grey
+const WELL_EXPOSED_SIGMA = 0.2;
+
+// Weight of every possible luma value, so the curve is not evaluated per pixel
+const WEIGHTS = Float32Array.from({ length: 256 }, (_, luma) => {
+  return Math.exp(-((luma / 255 - 0.5) ** 2) / (2 * WELL_EXPOSED_SIGMA ** 2)) + 1e-6;
+});
+
+// Exposure fusion: every pixel is averaged across the frames, weighted by how close it is to mid-grey
+// in each, so shadows come from the bright frames and highlights from the dark ones
+const mergeExposures = (frames: ImageData[]): ImageData => {
+  const { width, height } = frames[0];
+  const merged = new ImageData(width, height);
+  const output = merged.data;
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const offset = pixel * 4;
+    let totalWeight = 0;
+    let red = 0;
+    let green = 0;
+    let blue = 0;
+
+    for (const frame of frames) {
+      const data = frame.data;
+      const weight = WEIGHTS[Math.round(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2])];
+      red += data[offset] * weight;
+      green += data[offset + 1] * weight;
+      blue += data[offset + 2] * weight;
+      totalWeight += weight;
+    }
+
+    output[offset] = red / totalWeight;
+    output[offset + 1] = green / totalWeight;
+    output[offset + 2] = blue / totalWeight;
+    output[offset + 3] = 255;
+  }
+
+  return merged;
+};
+
+self.onmessage = (event: MessageEvent<ImageData[]>) => {
+  const merged = mergeExposures(event.data);
+  self.postMessage(merged, { transfer: [merged.data.buffer] });
+};
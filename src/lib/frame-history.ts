@@ -0,0 +1,207 @@
+import { FRAMES_STORE, THUMBNAILS_STORE, openDatabase, withStore } from '@/lib/db'
+import { getOutputSize } from '@/lib/output-settings'
+import { canvasToBlob } from '@/lib/image'
+
+// Local history of captured frames, kept per camera in IndexedDB for previews and on-device exports.
+// Only the most recent frames are kept so the browser's storage quota is not exhausted. Every frame
+// also gets a small thumbnail in a separate store, so the gallery never has to read full frames.
+// The history shares the quota with the outbox and always gives way to it: it is capped in bytes,
+// shrinks once the origin's storage fills up, and is evicted when a queued capture cannot be stored.
+
+// Frames kept per camera before the oldest are pruned
+export const MAX_FRAMES_PER_CAMERA = 500;
+
+// Total size of the history frames of all cameras before the oldest are pruned
+export const MAX_HISTORY_BYTES = 200 * 1024 * 1024;
+
+// Share of the storage quota above which the history shrinks to leave room for the outbox
+const HISTORY_QUOTA_SHARE = 0.5;
+
+// Width of the thumbnails shown in the gallery and during preview playback
+const THUMBNAIL_WIDTH = 320;
+
+export interface StoredFrame {
+  id: number;
+  cameraId: string;
+  timestamp: string; // ISO capture time
+  image: Blob;
+  width: number;
+  height: number;
+}
+
+// Downscaled copy of a frame, stored under the same id
+export interface FrameThumbnail {
+  id: number;
+  cameraId: string;
+  timestamp: string;
+  image: Blob;
+}
+
+// Key range covering all frames of a camera, optionally limited to a time span
+const cameraRange = (cameraId: string, from = '', to = '\uffff') => {
+  return IDBKeyRange.bound([cameraId, from], [cameraId, to]);
+};
+
+// Delete a camera's frames and their thumbnails, oldest first, until `limit` frames are gone
+const deleteFrames = async (cameraId: string, limit = Infinity): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([FRAMES_STORE, THUMBNAILS_STORE], 'readwrite');
+  const thumbnails = transaction.objectStore(THUMBNAILS_STORE);
+  const index = transaction.objectStore(FRAMES_STORE).index('camera_timestamp');
+
+  let remaining = limit;
+  return new Promise((resolve, reject) => {
+    const request = index.openCursor(cameraRange(cameraId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || remaining <= 0) {
+        resolve();
+        return;
+      }
+      thumbnails.delete(cursor.primaryKey);
+      cursor.delete();
+      remaining--;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Delete the oldest frames of all cameras, with their thumbnails, until at least `bytes` are freed
+export const evictOldestFrames = async (bytes: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([FRAMES_STORE, THUMBNAILS_STORE], 'readwrite');
+  const thumbnails = transaction.objectStore(THUMBNAILS_STORE);
+
+  let freed = 0;
+  return new Promise((resolve, reject) => {
+    const request = transaction.objectStore(FRAMES_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || freed >= bytes) {
+        resolve();
+        return;
+      }
+      freed += (cursor.value as StoredFrame).image.size;
+      thumbnails.delete(cursor.primaryKey);
+      cursor.delete();
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Bytes used by the history frames of all cameras
+const getHistoryBytes = async (): Promise<number> => {
+  const db = await openDatabase();
+  let total = 0;
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(FRAMES_STORE, 'readonly').objectStore(FRAMES_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(total);
+        return;
+      }
+      total += (cursor.value as StoredFrame).image.size;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Whether storing `bytes` more would take the origin past the share of its quota the history may fill
+const isStorageTight = async (bytes: number): Promise<boolean> => {
+  if (!navigator.storage?.estimate) return false;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 && usage + bytes > quota * HISTORY_QUOTA_SHARE;
+};
+
+// Scale a frame down to thumbnail size
+const createThumbnail = async (frame: Omit<StoredFrame, 'id'>): Promise<Blob> => {
+  const size = getOutputSize(frame.width, frame.height, THUMBNAIL_WIDTH);
+  const bitmap = await createImageBitmap(frame.image);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not get canvas context');
+    }
+    context.drawImage(bitmap, 0, 0, size.width, size.height);
+    return await canvasToBlob(canvas, 'image/jpeg', 0.7);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Store a frame with its thumbnail and prune the oldest frames beyond the limits
+export const addFrame = async (frame: Omit<StoredFrame, 'id'>): Promise<void> => {
+  // With storage filling up, free twice the new frame's size so the history shrinks as the outbox grows
+  if (await isStorageTight(frame.image.size)) {
+    await evictOldestFrames(frame.image.size * 2);
+  }
+
+  const thumbnail = await createThumbnail(frame);
+  const id = await withStore(FRAMES_STORE, 'readwrite', store => store.add(frame)) as number;
+  await withStore(THUMBNAILS_STORE, 'readwrite', store => {
+    return store.add({ id, cameraId: frame.cameraId, timestamp: frame.timestamp, image: thumbnail });
+  });
+
+  const count = await withStore(FRAMES_STORE, 'readonly', store => {
+    return store.index('camera_timestamp').count(cameraRange(frame.cameraId));
+  });
+  if (count > MAX_FRAMES_PER_CAMERA) {
+    await deleteFrames(frame.cameraId, count - MAX_FRAMES_PER_CAMERA);
+  }
+
+  const bytes = await getHistoryBytes();
+  if (bytes > MAX_HISTORY_BYTES) {
+    await evictOldestFrames(bytes - MAX_HISTORY_BYTES);
+  }
+};
+
+// Frames of a camera within an ISO timestamp range, oldest first
+export const getFramesInRange = (cameraId: string, from: string, to: string): Promise<StoredFrame[]> => {
+  return withStore(FRAMES_STORE, 'readonly', store => {
+    return store.index('camera_timestamp').getAll(cameraRange(cameraId, from, to)) as IDBRequest<StoredFrame[]>;
+  });
+};
+
+// A full frame by id, undefined once it has been pruned
+export const getFrame = (id: number): Promise<StoredFrame | undefined> => {
+  return withStore(FRAMES_STORE, 'readonly', store => store.get(id) as IDBRequest<StoredFrame | undefined>);
+};
+
+// Thumbnails of the most recent frames of a camera, oldest first
+export const getRecentThumbnails = async (cameraId: string, limit: number): Promise<FrameThumbnail[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(THUMBNAILS_STORE, 'readonly').objectStore(THUMBNAILS_STORE).index('camera_timestamp');
+  const thumbnails: FrameThumbnail[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(cameraRange(cameraId), 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || thumbnails.length >= limit) {
+        resolve();
+        return;
+      }
+      thumbnails.push(cursor.value as FrameThumbnail);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return thumbnails.reverse();
+};
+
+// Thumbnails of a camera's frames captured after an ISO timestamp, oldest first
+export const getThumbnailsAfter = (cameraId: string, after: string): Promise<FrameThumbnail[]> => {
+  return withStore(THUMBNAILS_STORE, 'readonly', store => {
+    const range = IDBKeyRange.bound([cameraId, after], [cameraId, '\uffff'], true);
+    return store.index('camera_timestamp').getAll(range) as IDBRequest<FrameThumbnail[]>;
+  });
+};
+
+export const clearFrames = (cameraId: string): Promise<void> => deleteFrames(cameraId);
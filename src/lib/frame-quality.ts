@@ -0,0 +1,116 @@
+// Image-quality checks run on each frame before it is stored and uploaded, catching night frames,
+// a covered lens and frozen streams that would otherwise fill storage with useless images.
+
+export type FrameIssue = 'dark' | 'uniform' | 'duplicate';
+
+// What happens to a frame that fails a check
+export type QualityAction = 'off' | 'skip' | 'flag';
+
+export interface FrameQualitySettings {
+  action: QualityAction;
+  minBrightness: number; // Mean luminance 0-255 below which a frame is too dark
+  minContrast: number; // Luminance standard deviation below which a frame is too uniform
+  maxDuplicateDistance: number; // Differing hash bits (of 64) up to which a frame repeats the previous one, -1 disables
+}
+
+// Frames that failed each check since the page was opened
+export type FrameIssueCounts = Record<FrameIssue, number>;
+
+export const DEFAULT_FRAME_QUALITY: FrameQualitySettings = {
+  action: 'off',
+  minBrightness: 20,
+  minContrast: 6,
+  maxDuplicateDistance: -1,
+};
+
+export const EMPTY_ISSUE_COUNTS: FrameIssueCounts = { dark: 0, uniform: 0, duplicate: 0 };
+
+export const DUPLICATE_OPTIONS: { value: number; label: string }[] = [
+  { value: -1, label: 'Off' },
+  { value: 0, label: 'Identical frames only' },
+  { value: 4, label: 'Nearly identical frames' },
+];
+
+export const QUALITY_ACTIONS: { value: QualityAction; label: string }[] = [
+  { value: 'off', label: 'Keep every frame' },
+  { value: 'skip', label: 'Skip bad frames' },
+  { value: 'flag', label: 'Upload and flag bad frames' },
+];
+
+export const ISSUE_LABELS: Record<FrameIssue, string> = {
+  dark: 'too dark',
+  uniform: 'too uniform',
+  duplicate: 'duplicate',
+};
+
+export interface FrameStats {
+  brightness: number;
+  contrast: number;
+  hash: bigint; // 64-bit difference hash of the frame
+}
+
+// Size of the grid luminance statistics are computed on
+const STATS_SIZE = 32;
+
+// Luminance of a downscaled copy of the source, row by row
+const sampleLuminance = (canvas: HTMLCanvasElement, source: CanvasImageSource, width: number, height: number): Float32Array => {
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+
+  context.drawImage(source, 0, 0, width, height);
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+  return luma;
+};
+
+// Brightness, contrast and a perceptual hash of a frame
+export const analyzeFrame = (source: CanvasImageSource): FrameStats => {
+  const canvas = document.createElement('canvas');
+  const luma = sampleLuminance(canvas, source, STATS_SIZE, STATS_SIZE);
+  const brightness = luma.reduce((sum, value) => sum + value, 0) / luma.length;
+  const variance = luma.reduce((sum, value) => sum + (value - brightness) ** 2, 0) / luma.length;
+
+  // Difference hash: each bit tells whether a pixel is brighter than its right neighbour on a 9x8 grid
+  const grid = sampleLuminance(canvas, source, 9, 8);
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      hash = (hash << 1n) | (grid[row * 9 + column] > grid[row * 9 + column + 1] ? 1n : 0n);
+    }
+  }
+
+  return { brightness, contrast: Math.sqrt(variance), hash };
+};
+
+// Number of differing bits between two hashes
+export const hashDistance = (a: bigint, b: bigint): number => {
+  let diff = a ^ b;
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+};
+
+// Checks a frame fails, comparing it with the previous frame's hash when there is one
+export const getFrameIssues = (stats: FrameStats, previousHash: bigint | null, settings: FrameQualitySettings): FrameIssue[] => {
+  const issues: FrameIssue[] = [];
+  if (stats.brightness < settings.minBrightness) issues.push('dark');
+  if (stats.contrast < settings.minContrast) issues.push('uniform');
+  if (
+    previousHash !== null &&
+    settings.maxDuplicateDistance >= 0 &&
+    hashDistance(stats.hash, previousHash) <= settings.maxDuplicateDistance
+  ) {
+    issues.push('duplicate');
+  }
+  return issues;
+};
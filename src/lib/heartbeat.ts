@@ -0,0 +1,86 @@
+import { getDeviceId } from '@/lib/device'
+import { authorizedFetch } from '@/lib/auth'
+import { getApiBaseUrl } from '@/lib/runtime-config'
+import type { FrameIssueCounts } from '@/lib/frame-quality'
+
+// Periodic health report so the backend can tell a silent rig from one that is simply outside its schedule
+
+// State of a single camera as reported in the heartbeat
+export interface CameraHealth {
+  cameraId: string;
+  streamActive: boolean;
+  capturing: boolean;
+  resolution: { width: number; height: number } | null;
+  lastCaptureAt: string | null;
+  lastError: string | null;
+  frameIssues: FrameIssueCounts; // Frames failing the quality checks, a steady rise points at a broken camera
+  streamRecoveries: number; // Times the watchdog reopened a failed camera stream
+  sessionId: string | null; // Capture session the camera is recording into
+}
+
+export interface BatteryStatus {
+  level: number; // 0 - 1
+  charging: boolean;
+}
+
+export interface HeartbeatPayload {
+  deviceId: string;
+  appVersion: string;
+  timestamp: string;
+  uptimeSeconds: number;
+  configVersion: string | null;
+  queueDepth: number;
+  battery: BatteryStatus | null;
+  cameras: CameraHealth[];
+}
+
+// Battery Status API, only available in Chromium-based browsers
+interface BatteryManager {
+  level: number;
+  charging: boolean;
+}
+
+type NavigatorWithBattery = Navigator & { getBattery?: () => Promise<BatteryManager> };
+
+export const getBatteryStatus = async (): Promise<BatteryStatus | null> => {
+  const { getBattery } = navigator as NavigatorWithBattery;
+  if (!getBattery) return null;
+
+  try {
+    const battery = await getBattery.call(navigator);
+    return { level: battery.level, charging: battery.charging };
+  } catch (err) {
+    console.error('Error reading battery status:', err);
+    return null;
+  }
+};
+
+// Assemble the heartbeat from the current application state
+export const buildHeartbeat = async (
+  cameras: CameraHealth[],
+  queueDepth: number,
+  configVersion: string | null
+): Promise<HeartbeatPayload> => ({
+  deviceId: getDeviceId(),
+  appVersion: __APP_VERSION__,
+  timestamp: new Date().toISOString(),
+  uptimeSeconds: Math.round(performance.now() / 1000),
+  configVersion,
+  queueDepth,
+  battery: await getBatteryStatus(),
+  cameras,
+});
+
+export const sendHeartbeat = async (payload: HeartbeatPayload): Promise<void> => {
+  const response = await authorizedFetch(`${getApiBaseUrl()}/timelapse/heartbeat`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Server response: ${response.status}`);
+  }
+};
@@ -0,0 +1,109 @@
+import {
+  type Region,
+  type FrameTransform,
+  FULL_FRAME_REGION,
+  normalizeRegion,
+  getOrientedSize,
+  drawTransformed,
+} from '@/lib/transform'
+
+// Motion detection on downscaled preview frames. Each sample is compared against a slowly
+// adapting background so gradual light changes are absorbed while sudden movement stands out.
+
+export type CaptureMode = 'interval' | 'motion';
+
+export interface MotionSettings {
+  region: Region; // Area watched for motion, relative to the rotated frame
+  sensitivity: number; // 1-100, higher values trigger on smaller movements
+  cooldownSeconds: number; // Minimum time between two triggers
+  preFrames: number; // Frames kept from just before the trigger
+  postFrames: number; // Extra frames taken after the trigger
+}
+
+export const DEFAULT_MOTION_SETTINGS: MotionSettings = {
+  region: FULL_FRAME_REGION,
+  sensitivity: 70,
+  cooldownSeconds: 10,
+  preFrames: 0,
+  postFrames: 2,
+};
+
+// Time between motion samples, also the spacing of pre and post trigger frames
+export const MOTION_SAMPLE_INTERVAL_MS = 500;
+
+export const MAX_PRE_FRAMES = 10;
+export const MAX_POST_FRAMES = 20;
+
+// Width of the frames compared, small enough to sample cheaply on low-end devices
+const SAMPLE_WIDTH = 64;
+
+// Brightness change (0-255) above which a pixel counts as changed
+const PIXEL_THRESHOLD = 25;
+
+// Weight of each new sample in the rolling background
+const BACKGROUND_RATE = 0.05;
+
+// Fraction of the region that has to change to trigger, for a sensitivity of 1-100
+export const getTriggerLevel = (sensitivity: number): number => {
+  const inverse = (100 - Math.min(100, Math.max(1, sensitivity))) / 100;
+  return Math.max(0.002, 0.5 * inverse * inverse);
+};
+
+export interface MotionDetector {
+  sample: (video: HTMLVideoElement) => number; // Fraction of the region that changed
+}
+
+// Detector comparing samples of a video inside a region against its own rolling background.
+// Samples are rotated and flipped like captured frames so the region matches the preview.
+export const createMotionDetector = (regionSetting: Region, transform: FrameTransform): MotionDetector => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  const region = normalizeRegion(regionSetting);
+  let background: Float32Array | null = null;
+
+  const sample = (video: HTMLVideoElement): number => {
+    if (!context || video.videoWidth === 0) return 0;
+
+    const oriented = getOrientedSize(video.videoWidth, video.videoHeight, transform.rotation);
+    const width = SAMPLE_WIDTH;
+    const height = Math.max(1, Math.round(oriented.height * SAMPLE_WIDTH / oriented.width));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+      background = null;
+    }
+
+    drawTransformed(context, video, video.videoWidth, video.videoHeight, { ...transform, crop: FULL_FRAME_REGION }, width, height);
+    const pixels = context.getImageData(0, 0, width, height).data;
+
+    // The first sample only seeds the background
+    if (!background) {
+      background = new Float32Array(width * height);
+      for (let i = 0; i < background.length; i++) {
+        background[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+      }
+      return 0;
+    }
+
+    const left = Math.floor(region.x * width);
+    const top = Math.floor(region.y * height);
+    const right = Math.max(left + 1, Math.ceil((region.x + region.width) * width));
+    const bottom = Math.max(top + 1, Math.ceil((region.y + region.height) * height));
+    let changed = 0;
+
+    for (let row = 0; row < height; row++) {
+      for (let column = 0; column < width; column++) {
+        const i = row * width + column;
+        const luma = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+        if (row >= top && row < bottom && column >= left && column < right && Math.abs(luma - background[i]) > PIXEL_THRESHOLD) {
+          changed++;
+        }
+        background[i] += (luma - background[i]) * BACKGROUND_RATE;
+      }
+    }
+
+    return changed / ((right - left) * (bottom - top));
+  };
+
+  return { sample };
+};
@@ -0,0 +1,94 @@
+import { OUTBOX_STORE, withStore } from '@/lib/db'
+import { evictOldestFrames } from '@/lib/frame-history'
+import type { FrameIssue } from '@/lib/frame-quality'
+import type { CaptureMethod } from '@/lib/still-capture'
+import type { BracketTag } from '@/lib/bracketing'
+import type { CaptureMetadata } from '@/lib/capture-metadata'
+
+// Durable outbox for captures that could not be uploaded.
+// Entries are kept in IndexedDB so they survive page reloads and are retried with exponential backoff.
+
+// Backoff settings for failed uploads
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// Upload payload as sent to the backend
+export interface CapturePayload {
+  cameraId: string;
+  image: Blob;
+  timestamp: string;
+  qualityFlags?: FrameIssue[]; // Failed quality checks of a frame uploaded with flagging enabled
+  captureMethod?: CaptureMethod;
+  bracket?: BracketTag; // Set on frames taken as part of an exposure bracket
+  targets?: string[]; // Upload targets the capture still has to reach, all of them when unset
+  sessionId?: string; // Capture session the frame belongs to
+  sequence?: number; // Position of the frame within its session, starting at 1
+  metadata?: CaptureMetadata; // Set when metadata collection is enabled for the camera
+}
+
+// Queued capture waiting to be uploaded
+export interface OutboxEntry {
+  id: number;
+  payload: CapturePayload;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+// Run a callback against the outbox store inside a single transaction
+const withOutbox = <T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  return withStore(OUTBOX_STORE, mode, callback);
+};
+
+// Delay before the next attempt, doubling with each failure up to a ceiling
+export const getRetryDelay = (attempts: number): number => {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+};
+
+// Persist a capture that failed to upload
+export const enqueueCapture = async (payload: CapturePayload, error: string): Promise<void> => {
+  const entry = {
+    payload,
+    attempts: 1,
+    nextAttemptAt: Date.now() + getRetryDelay(1),
+    lastError: error,
+  };
+  try {
+    await withOutbox('readwrite', store => store.add(entry));
+  } catch (err) {
+    // Most likely the storage quota; the local history shares it, so give up history frames rather than the capture
+    console.error('Error queueing capture, evicting frame history:', err);
+    await evictOldestFrames(payload.image.size * 4);
+    await withOutbox('readwrite', store => store.add(entry));
+  }
+};
+
+// All queued captures, oldest first
+export const getOutboxEntries = (): Promise<OutboxEntry[]> => {
+  return withOutbox('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+};
+
+export const countOutboxEntries = (): Promise<number> => {
+  return withOutbox('readonly', store => store.count());
+};
+
+export const removeOutboxEntry = async (id: number): Promise<void> => {
+  await withOutbox('readwrite', store => store.delete(id));
+};
+
+// Record a failed retry and push the next attempt further out, keeping only the targets still missing
+export const markOutboxEntryFailed = async (entry: OutboxEntry, error: string, pendingTargets?: string[]): Promise<void> => {
+  const attempts = entry.attempts + 1;
+  await withOutbox('readwrite', store => store.put({
+    ...entry,
+    payload: pendingTargets ? { ...entry.payload, targets: pendingTargets } : entry.payload,
+    attempts,
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    lastError: error,
+  }));
+};
+
+export const clearOutbox = async (): Promise<void> => {
+  await withOutbox('readwrite', store => store.clear());
+};
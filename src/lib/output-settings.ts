@@ -0,0 +1,65 @@
+// Encoding settings for captured frames and upload size estimates
+
+export type OutputFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface OutputSettings {
+  format: OutputFormat;
+  quality: number; // 0.1 - 1, ignored for lossless PNG
+  targetWidth: number | null; // Downscale to this width, null keeps the native resolution
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  format: 'image/jpeg',
+  quality: 0.9,
+  targetWidth: null,
+};
+
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/png', label: 'PNG (lossless)' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+export const TARGET_WIDTH_PRESETS = [3840, 2560, 1920, 1280, 960, 640];
+
+export const isLossless = (format: OutputFormat) => format === 'image/png';
+
+// Output dimensions for a source frame, preserving aspect ratio and never upscaling
+export const getOutputSize = (sourceWidth: number, sourceHeight: number, targetWidth: number | null) => {
+  if (!targetWidth || targetWidth >= sourceWidth || sourceWidth === 0) {
+    return { width: sourceWidth, height: sourceHeight };
+  }
+  return {
+    width: targetWidth,
+    height: Math.round(sourceHeight * targetWidth / sourceWidth),
+  };
+};
+
+// Rough bytes per pixel for typical camera scenes, used before any real frame has been encoded
+const estimateBytesPerPixel = (settings: OutputSettings): number => {
+  switch (settings.format) {
+    case 'image/png':
+      return 1.5;
+    case 'image/webp':
+      return 0.7 * (0.05 + 0.25 * settings.quality ** 2);
+    default:
+      return 0.05 + 0.25 * settings.quality ** 2;
+  }
+};
+
+// Estimated encoded size of one frame in bytes
+export const estimateFrameBytes = (width: number, height: number, settings: OutputSettings): number => {
+  const size = getOutputSize(width, height, settings.targetWidth);
+  return size.width * size.height * estimateBytesPerPixel(settings);
+};
+
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
@@ -0,0 +1,356 @@
+import {
+  type CameraProfile,
+  DEFAULT_PROFILE,
+  loadProfiles,
+  saveProfiles,
+  saveCameraIds,
+  loadSelectedDeviceId,
+  saveSelectedDeviceId,
+} from '@/lib/camera-profiles'
+import { type CameraSettings, loadCameraSettings, saveCameraSettings, withDefaults } from '@/lib/camera-settings'
+import type { ScheduleWindow } from '@/lib/schedule'
+import { OUTPUT_FORMATS } from '@/lib/output-settings'
+import { MAX_PRE_FRAMES, MAX_POST_FRAMES } from '@/lib/motion'
+import { QUALITY_ACTIONS } from '@/lib/frame-quality'
+import { WATERMARK_POSITIONS, TIMESTAMP_FORMATS, isValidTimeZone } from '@/lib/watermark'
+import { type Region, ROTATIONS } from '@/lib/transform'
+import { BRACKET_FRAME_OPTIONS } from '@/lib/bracketing'
+import { getDeviceId } from '@/lib/device'
+import { authorizedFetch } from '@/lib/auth'
+import { getApiBaseUrl } from '@/lib/runtime-config'
+
+// Device configuration managed on the backend and pulled by the frontend.
+//
+// GET  {API base URL}/timelapse/config?deviceId=... returns a document like
+//   { "version": "42", "cameras": [{ "id": "camera-1", "deviceId": "...", "profile": {...}, "settings": {...} }] }
+// where every camera field except id is optional and settings may be partial.
+// POST {API base URL}/timelapse/config/ack reports whether a version was applied or rejected.
+
+const APPLIED_VERSION_KEY = 'timelapse.remoteConfig.version';
+
+export interface RemoteCamera {
+  id: string;
+  deviceId?: string | null;
+  profile?: CameraProfile;
+  settings?: Partial<CameraSettings>;
+}
+
+export interface RemoteConfiguration {
+  version: string;
+  cameras: RemoteCamera[];
+}
+
+// Settings groups that withDefaults merges field by field
+const NESTED_SETTINGS = [
+  'schedule', 'outputSettings', 'motion', 'frameQuality', 'watermark', 'transform', 'controls', 'bracketing', 'metadata',
+] as const;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})?$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isPositiveNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Collect problems with a schedule window into `errors`
+const validateWindow = (window: ScheduleWindow, path: string, errors: string[]) => {
+  if (typeof window.id !== 'string') errors.push(`${path}.id must be a string`);
+  if (window.kind !== 'fixed' && window.kind !== 'solar') errors.push(`${path}.kind must be fixed or solar`);
+  if (!TIME_PATTERN.test(window.start)) errors.push(`${path}.start must be HH:MM`);
+  if (!TIME_PATTERN.test(window.end)) errors.push(`${path}.end must be HH:MM`);
+  if (typeof window.startOffset !== 'number' || typeof window.endOffset !== 'number') {
+    errors.push(`${path} offsets must be numbers`);
+  }
+  if (!Array.isArray(window.days) || window.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    errors.push(`${path}.days must be weekday numbers 0-6`);
+  }
+};
+
+// Whether a value is a capture profile the camera can be opened with
+export const isValidProfile = (value: unknown): value is CameraProfile => {
+  return isObject(value) && isPositiveNumber(value.width) && isPositiveNumber(value.height) && isPositiveNumber(value.frameRate);
+};
+
+// Whether a value is a region with all edges inside the frame
+const isRegion = (value: unknown): value is Region => {
+  if (!isObject(value)) return false;
+  const { x, y, width, height } = value;
+  return [x, y, width, height].every(edge => typeof edge === 'number' && edge >= 0 && edge <= 1)
+    && (x as number) + (width as number) <= 1
+    && (y as number) + (height as number) <= 1;
+};
+
+// Collect problems with fully merged camera settings into `errors`
+const validateSettings = (settings: CameraSettings, path: string, errors: string[]) => {
+  if (!isPositiveNumber(settings.intervalValue)) errors.push(`${path}.intervalValue must be a positive number`);
+  if (!['seconds', 'minutes', 'hours'].includes(settings.intervalUnit)) errors.push(`${path}.intervalUnit is invalid`);
+  if (!['relative', 'aligned'].includes(settings.timingMode)) errors.push(`${path}.timingMode is invalid`);
+  if (!['skip', 'catch-up'].includes(settings.missedSlotPolicy)) errors.push(`${path}.missedSlotPolicy is invalid`);
+  if (typeof settings.powerSaving !== 'boolean') errors.push(`${path}.powerSaving must be a boolean`);
+  if (typeof settings.autoResume !== 'boolean') errors.push(`${path}.autoResume must be a boolean`);
+  if (typeof settings.stillCapture !== 'boolean') errors.push(`${path}.stillCapture must be a boolean`);
+
+  if (!['interval', 'motion'].includes(settings.captureMode)) errors.push(`${path}.captureMode is invalid`);
+
+  const { schedule, outputSettings, motion, frameQuality, watermark, transform, controls, bracketing, metadata } = settings;
+  if (typeof schedule.enabled !== 'boolean') errors.push(`${path}.schedule.enabled must be a boolean`);
+  if (!Array.isArray(schedule.windows) || schedule.windows.length === 0) {
+    errors.push(`${path}.schedule.windows must be a non-empty list`);
+  } else {
+    schedule.windows.forEach((window, index) => {
+      if (!isObject(window)) {
+        errors.push(`${path}.schedule.windows[${index}] must be an object`);
+      } else {
+        validateWindow(window, `${path}.schedule.windows[${index}]`, errors);
+      }
+    });
+  }
+  if (!DATE_PATTERN.test(schedule.startDate) || !DATE_PATTERN.test(schedule.endDate)) {
+    errors.push(`${path}.schedule dates must be YYYY-MM-DD or empty`);
+  }
+  if (schedule.latitude !== null && (typeof schedule.latitude !== 'number' || Math.abs(schedule.latitude) > 90)) {
+    errors.push(`${path}.schedule.latitude is out of range`);
+  }
+  if (schedule.longitude !== null && (typeof schedule.longitude !== 'number' || Math.abs(schedule.longitude) > 180)) {
+    errors.push(`${path}.schedule.longitude is out of range`);
+  }
+
+  if (!OUTPUT_FORMATS.some(format => format.value === outputSettings.format)) {
+    errors.push(`${path}.outputSettings.format is invalid`);
+  }
+  if (typeof outputSettings.quality !== 'number' || outputSettings.quality < 0.1 || outputSettings.quality > 1) {
+    errors.push(`${path}.outputSettings.quality must be between 0.1 and 1`);
+  }
+  if (outputSettings.targetWidth !== null && !isPositiveNumber(outputSettings.targetWidth)) {
+    errors.push(`${path}.outputSettings.targetWidth must be a positive number or null`);
+  }
+
+  if (!isRegion(motion.region)) {
+    errors.push(`${path}.motion.region needs x, y, width and height between 0 and 1`);
+  }
+  if (typeof motion.sensitivity !== 'number' || motion.sensitivity < 1 || motion.sensitivity > 100) {
+    errors.push(`${path}.motion.sensitivity must be between 1 and 100`);
+  }
+  if (typeof motion.cooldownSeconds !== 'number' || motion.cooldownSeconds < 0) {
+    errors.push(`${path}.motion.cooldownSeconds must be a number of at least 0`);
+  }
+  if (!Number.isInteger(motion.preFrames) || motion.preFrames < 0 || motion.preFrames > MAX_PRE_FRAMES) {
+    errors.push(`${path}.motion.preFrames must be a whole number from 0 to ${MAX_PRE_FRAMES}`);
+  }
+  if (!Number.isInteger(motion.postFrames) || motion.postFrames < 0 || motion.postFrames > MAX_POST_FRAMES) {
+    errors.push(`${path}.motion.postFrames must be a whole number from 0 to ${MAX_POST_FRAMES}`);
+  }
+
+  if (!QUALITY_ACTIONS.some(action => action.value === frameQuality.action)) {
+    errors.push(`${path}.frameQuality.action is invalid`);
+  }
+  if (typeof frameQuality.minBrightness !== 'number' || frameQuality.minBrightness < 0 || frameQuality.minBrightness > 255) {
+    errors.push(`${path}.frameQuality.minBrightness must be between 0 and 255`);
+  }
+  if (typeof frameQuality.minContrast !== 'number' || frameQuality.minContrast < 0 || frameQuality.minContrast > 128) {
+    errors.push(`${path}.frameQuality.minContrast must be between 0 and 128`);
+  }
+  if (!Number.isInteger(frameQuality.maxDuplicateDistance) || frameQuality.maxDuplicateDistance < -1 || frameQuality.maxDuplicateDistance > 64) {
+    errors.push(`${path}.frameQuality.maxDuplicateDistance must be a whole number from -1 to 64`);
+  }
+
+  if (typeof watermark.enabled !== 'boolean') errors.push(`${path}.watermark.enabled must be a boolean`);
+  if (![watermark.showTimestamp, watermark.showTimeZone, watermark.background].every(value => typeof value === 'boolean')) {
+    errors.push(`${path}.watermark showTimestamp, showTimeZone and background must be booleans`);
+  }
+  if (!TIMESTAMP_FORMATS.some(format => format.value === watermark.timestampFormat)) {
+    errors.push(`${path}.watermark.timestampFormat is invalid`);
+  }
+  if (typeof watermark.timeZone !== 'string' || !isValidTimeZone(watermark.timeZone)) {
+    errors.push(`${path}.watermark.timeZone is not a known time zone`);
+  }
+  if (typeof watermark.label !== 'string') errors.push(`${path}.watermark.label must be a string`);
+  if (watermark.logo !== null && (typeof watermark.logo !== 'string' || !watermark.logo.startsWith('data:image/'))) {
+    errors.push(`${path}.watermark.logo must be an image data URL or null`);
+  }
+  if (!WATERMARK_POSITIONS.some(position => position.value === watermark.position)) {
+    errors.push(`${path}.watermark.position is invalid`);
+  }
+  if (typeof watermark.fontSize !== 'number' || watermark.fontSize < 1 || watermark.fontSize > 20) {
+    errors.push(`${path}.watermark.fontSize must be between 1 and 20`);
+  }
+  if (typeof watermark.textColor !== 'string' || !/^#[0-9a-f]{6}$/i.test(watermark.textColor)) {
+    errors.push(`${path}.watermark.textColor must be a #rrggbb color`);
+  }
+
+  if (!ROTATIONS.includes(transform.rotation)) errors.push(`${path}.transform.rotation must be 0, 90, 180 or 270`);
+  if (typeof transform.flipHorizontal !== 'boolean' || typeof transform.flipVertical !== 'boolean') {
+    errors.push(`${path}.transform flips must be booleans`);
+  }
+  if (!isRegion(transform.crop) || transform.crop.width === 0 || transform.crop.height === 0) {
+    errors.push(`${path}.transform.crop needs x, y, width and height between 0 and 1 inside the frame`);
+  }
+
+  for (const key of ['exposureMode', 'focusMode', 'whiteBalanceMode'] as const) {
+    if (controls[key] !== 'auto' && controls[key] !== 'manual') errors.push(`${path}.controls.${key} must be auto or manual`);
+  }
+  for (const key of ['exposureTime', 'exposureCompensation', 'focusDistance', 'colorTemperature', 'zoom'] as const) {
+    if (controls[key] !== null && (typeof controls[key] !== 'number' || !Number.isFinite(controls[key]))) {
+      errors.push(`${path}.controls.${key} must be a number or null`);
+    }
+  }
+  if (typeof controls.torch !== 'boolean' || typeof controls.lockDuringCapture !== 'boolean') {
+    errors.push(`${path}.controls torch and lockDuringCapture must be booleans`);
+  }
+
+  if (typeof bracketing.enabled !== 'boolean') errors.push(`${path}.bracketing.enabled must be a boolean`);
+  if (!BRACKET_FRAME_OPTIONS.includes(bracketing.frames)) {
+    errors.push(`${path}.bracketing.frames must be one of ${BRACKET_FRAME_OPTIONS.join(', ')}`);
+  }
+  if (!isPositiveNumber(bracketing.stepEv) || bracketing.stepEv > 4) {
+    errors.push(`${path}.bracketing.stepEv must be between 0 and 4`);
+  }
+  if (bracketing.output !== 'group' && bracketing.output !== 'merge') {
+    errors.push(`${path}.bracketing.output must be group or merge`);
+  }
+
+  if (![metadata.enabled, metadata.includeLocation, metadata.embedExif].every(value => typeof value === 'boolean')) {
+    errors.push(`${path}.metadata enabled, includeLocation and embedExif must be booleans`);
+  }
+};
+
+// Collect problems with possibly partial camera settings into `errors`, checked as they would be stored
+export const validateCameraSettings = (settings: unknown, path: string, errors: string[]) => {
+  if (!isObject(settings)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  // Defaults are merged per group, which would hide a group that is not an object at all
+  const badGroups = NESTED_SETTINGS.filter(key => settings[key] !== undefined && !isObject(settings[key]));
+  if (badGroups.length > 0) {
+    badGroups.forEach(key => errors.push(`${path}.${key} must be an object`));
+    return;
+  }
+  validateSettings(withDefaults(settings as Partial<CameraSettings>), path, errors);
+};
+
+// Validate a fetched document, throwing with every problem found so the backend can report them
+export const parseRemoteConfiguration = (data: unknown): RemoteConfiguration => {
+  if (!isObject(data)) throw new Error('Configuration must be an object');
+
+  const errors: string[] = [];
+  const version = typeof data.version === 'number' ? String(data.version) : data.version;
+  if (typeof version !== 'string' || !version) errors.push('version is required');
+
+  if (!Array.isArray(data.cameras) || data.cameras.length === 0) {
+    errors.push('cameras must be a non-empty list');
+  } else {
+    const cameras = data.cameras as unknown[];
+    cameras.forEach((camera, index) => {
+      const path = `cameras[${index}]`;
+      if (!isObject(camera) || typeof camera.id !== 'string' || !camera.id) {
+        errors.push(`${path}.id is required`);
+        return;
+      }
+      // Cameras are keyed by id in storage and in the page, so two with the same id would share state
+      if (cameras.some((other, otherIndex) => otherIndex < index && isObject(other) && other.id === camera.id)) {
+        errors.push(`${path}.id ${camera.id} is used more than once`);
+      }
+      if (camera.deviceId !== undefined && camera.deviceId !== null && typeof camera.deviceId !== 'string') {
+        errors.push(`${path}.deviceId must be a string or null`);
+      }
+      if (camera.settings !== undefined) {
+        validateCameraSettings(camera.settings, `${path}.settings`, errors);
+      }
+      if (camera.profile !== undefined) {
+        if (!isValidProfile(camera.profile)) {
+          errors.push(`${path}.profile needs positive width, height and frameRate`);
+        }
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return { version: version as string, cameras: data.cameras as RemoteCamera[] };
+};
+
+// Version field of a raw document, used to report rejected documents
+export const getRawVersion = (data: unknown): string | null => {
+  return isObject(data) && (typeof data.version === 'string' || typeof data.version === 'number')
+    ? String(data.version)
+    : null;
+};
+
+// Write a validated configuration to storage; cameras pick it up when they are remounted
+export const applyRemoteConfiguration = (config: RemoteConfiguration) => {
+  const profiles = loadProfiles();
+
+  for (const camera of config.cameras) {
+    if (camera.deviceId !== undefined) {
+      saveSelectedDeviceId(camera.id, camera.deviceId);
+    }
+    if (camera.settings) {
+      // Remote settings may be partial, so layer them over what the camera already has
+      const current = loadCameraSettings(camera.id);
+      saveCameraSettings(camera.id, withDefaults({
+        ...current,
+        ...camera.settings,
+        schedule: { ...current.schedule, ...camera.settings.schedule },
+        outputSettings: { ...current.outputSettings, ...camera.settings.outputSettings },
+        motion: { ...current.motion, ...camera.settings.motion },
+        frameQuality: { ...current.frameQuality, ...camera.settings.frameQuality },
+        watermark: { ...current.watermark, ...camera.settings.watermark },
+        transform: { ...current.transform, ...camera.settings.transform },
+        controls: { ...current.controls, ...camera.settings.controls },
+        bracketing: { ...current.bracketing, ...camera.settings.bracketing },
+        metadata: { ...current.metadata, ...camera.settings.metadata },
+      }));
+    }
+    if (camera.profile) {
+      const profileKey = loadSelectedDeviceId(camera.id) ?? 'default';
+      profiles[profileKey] = { ...DEFAULT_PROFILE, ...camera.profile };
+    }
+  }
+
+  saveProfiles(profiles);
+  saveCameraIds(config.cameras.map(camera => camera.id));
+  localStorage.setItem(APPLIED_VERSION_KEY, config.version);
+};
+
+export const loadAppliedVersion = (): string | null => {
+  return localStorage.getItem(APPLIED_VERSION_KEY);
+};
+
+// Fetch the configuration document for this device; null when the backend has none
+export const fetchRemoteConfiguration = async (): Promise<unknown | null> => {
+  const url = `${getApiBaseUrl()}/timelapse/config?deviceId=${encodeURIComponent(getDeviceId())}`;
+  const response = await authorizedFetch(url, { headers: { 'Accept': 'application/json' } });
+
+  if (response.status === 404 || response.status === 204) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Server response: ${response.status}`);
+  }
+  return response.json();
+};
+
+// Tell the backend which configuration version is active, or why one was rejected
+export const reportConfigurationStatus = async (version: string | null, error: string | null): Promise<void> => {
+  const response = await authorizedFetch(`${getApiBaseUrl()}/timelapse/config/ack`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      deviceId: getDeviceId(),
+      version,
+      status: error ? 'rejected' : 'applied',
+      error,
+      timestamp: new Date().toISOString(),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Server response: ${response.status}`);
+  }
+};
@@ -0,0 +1,132 @@
+import type { UploadMode } from '@/lib/upload'
+
+// Deployment settings read at startup from config.json next to the app, so one build can serve
+// staging and production. Build-time variables are the fallback when the file is missing.
+//
+// {
+//   "apiBaseUrl": "https://timelapse.example.com/api",
+//   "uploadMode": "multipart",
+//   "uploadTargets": [
+//     { "id": "backend", "type": "backend" },
+//     { "id": "archive", "type": "presigned", "presignPath": "/timelapse/presign" },
+//     { "id": "nas", "type": "webdav", "url": "https://nas.example.com/dav/timelapse", "authPath": "/timelapse/webdav-auth" }
+//   ]
+// }
+//
+// The file is served to anyone who can load the app, so it must not hold secrets: WebDAV targets
+// get short-lived request headers from the backend instead of a stored username and password.
+
+const API_BASE_URL_OVERRIDE_KEY = 'timelapse.apiBaseUrl';
+
+// Destination each capture is uploaded to
+export type UploadTarget =
+  | { id: string; type: 'backend' } // Timelapse backend at the API base URL, in the configured upload mode
+  | { id: string; type: 'presigned'; presignPath: string } // S3-compatible PUT to a URL presigned by the backend
+  | { id: string; type: 'webdav'; url: string; authPath: string }; // PUT into a WebDAV collection with headers issued by the backend
+
+export interface RuntimeConfig {
+  apiBaseUrl: string | null;
+  uploadMode: UploadMode | null;
+  uploadTargets: UploadTarget[];
+}
+
+export const DEFAULT_UPLOAD_TARGETS: UploadTarget[] = [{ id: 'backend', type: 'backend' }];
+
+const UPLOAD_MODES: UploadMode[] = ['json', 'multipart', 'binary'];
+
+let runtimeConfig: RuntimeConfig = {
+  apiBaseUrl: null,
+  uploadMode: null,
+  uploadTargets: DEFAULT_UPLOAD_TARGETS,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// A target from config.json, or null with a logged reason when it cannot be used
+const parseUploadTarget = (raw: unknown): UploadTarget | null => {
+  if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id) {
+    console.error('Ignoring upload target without an id:', raw);
+    return null;
+  }
+
+  switch (raw.type) {
+    case 'backend':
+      return { id: raw.id, type: 'backend' };
+    case 'presigned':
+      return { id: raw.id, type: 'presigned', presignPath: typeof raw.presignPath === 'string' ? raw.presignPath : '/timelapse/presign' };
+    case 'webdav':
+      if (raw.username !== undefined || raw.password !== undefined) {
+        console.error(`Ignoring WebDAV upload target ${raw.id}: credentials must come from the backend, not config.json`);
+        return null;
+      }
+      if (typeof raw.url !== 'string' || !raw.url) {
+        console.error(`Ignoring WebDAV upload target ${raw.id} without a valid url`);
+        return null;
+      }
+      return {
+        id: raw.id,
+        type: 'webdav',
+        url: raw.url.replace(/\/+$/, ''),
+        authPath: typeof raw.authPath === 'string' ? raw.authPath : '/timelapse/webdav-auth',
+      };
+    default:
+      console.error(`Ignoring upload target ${raw.id} of unknown type:`, raw.type);
+      return null;
+  }
+};
+
+export const parseRuntimeConfig = (raw: unknown): RuntimeConfig => {
+  if (!isObject(raw)) {
+    throw new Error('Runtime configuration must be a JSON object');
+  }
+
+  const targets = Array.isArray(raw.uploadTargets)
+    ? raw.uploadTargets.map(parseUploadTarget).filter((target): target is UploadTarget => target !== null)
+    : [];
+  const ids = targets.map(target => target.id);
+  if (ids.some((id, index) => ids.indexOf(id) !== index)) {
+    throw new Error('Upload target ids must be unique');
+  }
+
+  return {
+    apiBaseUrl: typeof raw.apiBaseUrl === 'string' && raw.apiBaseUrl ? raw.apiBaseUrl.replace(/\/+$/, '') : null,
+    uploadMode: UPLOAD_MODES.includes(raw.uploadMode as UploadMode) ? raw.uploadMode as UploadMode : null,
+    uploadTargets: targets.length > 0 ? targets : DEFAULT_UPLOAD_TARGETS,
+  };
+};
+
+// Read config.json once before the app starts; a missing or broken file keeps the build-time settings
+export const loadRuntimeConfig = async (): Promise<void> => {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}config.json`, { cache: 'no-cache' });
+    if (response.status === 404) return;
+    if (!response.ok) {
+      throw new Error(`Server response: ${response.status}`);
+    }
+    runtimeConfig = parseRuntimeConfig(await response.json());
+  } catch (err) {
+    console.error('Error loading runtime configuration:', err);
+  }
+};
+
+export const getRuntimeConfig = (): RuntimeConfig => runtimeConfig;
+
+// API base URL set on this device, taking precedence over config.json
+export const loadApiBaseUrlOverride = (): string | null => {
+  return localStorage.getItem(API_BASE_URL_OVERRIDE_KEY);
+};
+
+export const saveApiBaseUrlOverride = (url: string | null) => {
+  if (url) {
+    localStorage.setItem(API_BASE_URL_OVERRIDE_KEY, url.replace(/\/+$/, ''));
+  } else {
+    localStorage.removeItem(API_BASE_URL_OVERRIDE_KEY);
+  }
+};
+
+// Base URL of the timelapse backend: the device override, then config.json, then the build
+export const getApiBaseUrl = (): string => {
+  return loadApiBaseUrlOverride() ?? runtimeConfig.apiBaseUrl ?? import.meta.env.VITE_API_BASE_URL;
+};
@@ -0,0 +1,176 @@
+import { type TwilightType, getSolarWindow } from '@/lib/solar'
+
+// Capture schedule: one or more daily windows, limited to weekdays and an optional date range.
+// A window whose end is at or before its start continues past midnight into the next day.
+
+// Fixed clock times, or sunrise/sunset at the schedule's location
+export type WindowKind = 'fixed' | 'solar';
+
+export interface ScheduleWindow {
+  id: string;
+  kind: WindowKind;
+  start: string; // HH:MM, fixed windows
+  end: string; // HH:MM, fixed windows
+  startOffset: number; // Minutes added to the computed start, solar windows
+  endOffset: number; // Minutes added to the computed end, solar windows
+  days: number[]; // Weekdays the window starts on, 0 = Sunday
+}
+
+export interface CaptureSchedule {
+  enabled: boolean; // When off, capture around the clock
+  windows: ScheduleWindow[];
+  startDate: string; // YYYY-MM-DD, empty for no limit
+  endDate: string; // YYYY-MM-DD, empty for no limit
+  latitude: number | null;
+  longitude: number | null;
+  twilight: TwilightType;
+}
+
+// Concrete time span of a window on a given day
+export interface WindowOccurrence {
+  start: Date;
+  end: Date;
+}
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const MS_PER_MINUTE = 60000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// How far ahead to look for the next window before giving up
+const SEARCH_HORIZON_DAYS = 400;
+
+export const createWindow = (kind: WindowKind = 'fixed'): ScheduleWindow => ({
+  id: crypto.randomUUID(),
+  kind,
+  start: '08:00',
+  end: '18:00',
+  startOffset: 0,
+  endOffset: 0,
+  days: [...ALL_DAYS],
+});
+
+export const DEFAULT_SCHEDULE: CaptureSchedule = {
+  enabled: false,
+  windows: [{ ...createWindow(), id: 'default' }],
+  startDate: '',
+  endDate: '',
+  latitude: null,
+  longitude: null,
+  twilight: 'sunrise',
+};
+
+const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * MS_PER_MINUTE);
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Local calendar date as YYYY-MM-DD, comparable with date input values
+export const toDateString = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Time span of a window starting on the given day, or null if it does not run that day
+export const getWindowOccurrence = (schedule: CaptureSchedule, window: ScheduleWindow, day: Date): WindowOccurrence | null => {
+  const dayStart = startOfDay(day);
+  if (!window.days.includes(dayStart.getDay())) return null;
+
+  if (window.kind === 'solar') {
+    if (schedule.latitude === null || schedule.longitude === null) return null;
+
+    const solar = getSolarWindow(dayStart, schedule.latitude, schedule.longitude, schedule.twilight);
+    if (solar.type === 'polar-night') return null;
+    if (solar.type === 'polar-day') return { start: dayStart, end: addDays(dayStart, 1) };
+
+    return {
+      start: addMinutes(solar.start, window.startOffset),
+      end: addMinutes(solar.end, window.endOffset),
+    };
+  }
+
+  const start = addMinutes(dayStart, parseTime(window.start));
+  let end = addMinutes(dayStart, parseTime(window.end));
+  if (end <= start) end = addMinutes(end, 24 * 60); // Crosses midnight
+  return { start, end };
+};
+
+const isWithinDateRange = (schedule: CaptureSchedule, date: Date) => {
+  const day = toDateString(date);
+  return (!schedule.startDate || day >= schedule.startDate) && (!schedule.endDate || day <= schedule.endDate);
+};
+
+// Whether a capture is allowed at the given moment
+export const isWithinSchedule = (schedule: CaptureSchedule, date: Date): boolean => {
+  if (!schedule.enabled) return true;
+  if (!isWithinDateRange(schedule, date)) return false;
+
+  // Windows that started yesterday may still be running past midnight
+  return schedule.windows.some(window => [addDays(date, -1), date].some(day => {
+    const occurrence = getWindowOccurrence(schedule, window, day);
+    return !!occurrence && date >= occurrence.start && date < occurrence.end;
+  }));
+};
+
+// Earliest window start after the given moment that falls within the date range
+export const getNextWindowStart = (schedule: CaptureSchedule, from: Date): Date | null => {
+  for (let offset = 0; offset <= SEARCH_HORIZON_DAYS; offset++) {
+    const day = addDays(from, offset);
+    if (schedule.endDate && toDateString(day) > schedule.endDate) return null;
+
+    const starts = schedule.windows
+      .map(window => getWindowOccurrence(schedule, window, day)?.start)
+      .filter((start): start is Date => !!start && start > from && isWithinDateRange(schedule, start))
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    if (starts.length > 0) return starts[0];
+  }
+  return null;
+};
+
+// Upcoming capture times when shooting every intervalMs inside the schedule
+export const getUpcomingCaptures = (schedule: CaptureSchedule, intervalMs: number, from: Date, count: number): Date[] => {
+  const captures: Date[] = [];
+  const horizon = from.getTime() + SEARCH_HORIZON_DAYS * MS_PER_DAY;
+  let time = from;
+
+  while (captures.length < count && time.getTime() <= horizon) {
+    if (isWithinSchedule(schedule, time)) {
+      captures.push(time);
+      time = new Date(time.getTime() + intervalMs);
+      continue;
+    }
+
+    const next = getNextWindowStart(schedule, time);
+    if (!next) break;
+    time = next;
+  }
+
+  return captures;
+};
+
+// Average minutes per day open for capture over the coming week
+export const getAverageDailyMinutes = (schedule: CaptureSchedule, from: Date): number => {
+  if (!schedule.enabled) return 24 * 60;
+
+  const weekStart = startOfDay(from);
+  let total = 0;
+  for (let offset = 0; offset < 7; offset++) {
+    const day = addDays(weekStart, offset);
+    if (!isWithinDateRange(schedule, day)) continue;
+
+    for (const window of schedule.windows) {
+      const occurrence = getWindowOccurrence(schedule, window, day);
+      if (occurrence) {
+        total += (occurrence.end.getTime() - occurrence.start.getTime()) / MS_PER_MINUTE;
+      }
+    }
+  }
+  return Math.min(total / 7, MS_PER_DAY / MS_PER_MINUTE);
+};
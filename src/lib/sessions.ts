@@ -0,0 +1,195 @@
+import { authorizedFetch } from '@/lib/auth'
+import { getDeviceId } from '@/lib/device'
+import { getApiBaseUrl } from '@/lib/runtime-config'
+import { getRetryDelay } from '@/lib/outbox'
+
+// Capture sessions: a named timelapse with its own metadata. Frames taken while a session is
+// active carry its id and a sequence number, so the backend can split consecutive timelapses.
+
+const sessionsKey = (cameraId: string) => `timelapse.camera.${cameraId}.sessions`;
+
+// Ended sessions kept for the history list
+const MAX_ENDED_SESSIONS = 20;
+
+export interface SessionStats {
+  captured: number; // Frames encoded and sent or queued
+  skipped: number; // Frames dropped by the quality checks
+  failed: number; // Captures that failed and uploads that had to be queued
+}
+
+export interface SessionDetails {
+  name: string;
+  description: string;
+  location: string;
+  tags: string[];
+}
+
+export interface CaptureSession extends SessionDetails {
+  id: string;
+  cameraId: string;
+  startedAt: string;
+  endedAt: string | null;
+  stats: SessionStats;
+  lastSequence: number; // Sequence number of the latest frame, 0 before the first one
+  revision: number; // Bumped whenever the details change
+  syncedRevision: number; // Revision the backend last received
+}
+
+export const EMPTY_SESSION_DETAILS: SessionDetails = {
+  name: '',
+  description: '',
+  location: '',
+  tags: [],
+};
+
+// Sessions of a camera, newest first
+export const loadSessions = (cameraId: string): CaptureSession[] => {
+  try {
+    const raw = localStorage.getItem(sessionsKey(cameraId));
+    return raw ? JSON.parse(raw) as CaptureSession[] : [];
+  } catch (err) {
+    console.error('Error reading capture sessions:', err);
+    return [];
+  }
+};
+
+const saveSessions = (cameraId: string, sessions: CaptureSession[]) => {
+  const active = sessions.filter(session => !session.endedAt);
+  const ended = sessions.filter(session => session.endedAt).slice(0, MAX_ENDED_SESSIONS);
+  localStorage.setItem(sessionsKey(cameraId), JSON.stringify([...active, ...ended]));
+};
+
+export const clearSessions = (cameraId: string) => {
+  localStorage.removeItem(sessionsKey(cameraId));
+};
+
+export const getActiveSession = (cameraId: string): CaptureSession | null => {
+  return loadSessions(cameraId).find(session => !session.endedAt) ?? null;
+};
+
+// Change the active session of a camera in place and return it, or null when there is none
+const updateActiveSession = (
+  cameraId: string,
+  update: (session: CaptureSession) => CaptureSession
+): CaptureSession | null => {
+  const sessions = loadSessions(cameraId);
+  const index = sessions.findIndex(session => !session.endedAt);
+  if (index === -1) return null;
+
+  sessions[index] = update(sessions[index]);
+  saveSessions(cameraId, sessions);
+  return sessions[index];
+};
+
+// Tags typed as a comma-separated list
+export const parseTags = (text: string): string[] => {
+  return [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))];
+};
+
+// Start a new session, ending the one that was active
+export const startSession = (cameraId: string, details: SessionDetails): CaptureSession => {
+  const now = new Date().toISOString();
+  const session: CaptureSession = {
+    ...details,
+    id: crypto.randomUUID(),
+    cameraId,
+    startedAt: now,
+    endedAt: null,
+    stats: { captured: 0, skipped: 0, failed: 0 },
+    lastSequence: 0,
+    revision: 1,
+    syncedRevision: 0,
+  };
+
+  const sessions = loadSessions(cameraId).map(existing => (
+    existing.endedAt ? existing : { ...existing, endedAt: now, revision: existing.revision + 1 }
+  ));
+  saveSessions(cameraId, [session, ...sessions]);
+  return session;
+};
+
+export const updateSessionDetails = (cameraId: string, details: SessionDetails): CaptureSession | null => {
+  return updateActiveSession(cameraId, session => ({ ...session, ...details, revision: session.revision + 1 }));
+};
+
+// End the active session, returning it as ended
+export const endSession = (cameraId: string): CaptureSession | null => {
+  const active = getActiveSession(cameraId);
+  if (!active) return null;
+
+  const ended = { ...active, endedAt: new Date().toISOString(), revision: active.revision + 1 };
+  saveSessions(cameraId, loadSessions(cameraId).map(session => session.id === active.id ? ended : session));
+  return ended;
+};
+
+// Claim the next sequence number of the active session for a frame about to be uploaded.
+// Read from storage rather than component state so long-running capture loops never reuse a number.
+export const nextSessionFrame = (cameraId: string): { sessionId: string; sequence: number } | null => {
+  const session = updateActiveSession(cameraId, current => ({ ...current, lastSequence: current.lastSequence + 1 }));
+  return session ? { sessionId: session.id, sequence: session.lastSequence } : null;
+};
+
+// Count the outcome of a frame in the active session
+export const recordSessionOutcome = (cameraId: string, outcome: keyof SessionStats) => {
+  updateActiveSession(cameraId, session => ({
+    ...session,
+    stats: { ...session.stats, [outcome]: session.stats[outcome] + 1 },
+  }));
+};
+
+// Details may have changed again while the request was in flight, so only the sent revision is marked
+const markSynced = (session: CaptureSession) => {
+  const sessions = loadSessions(session.cameraId);
+  saveSessions(session.cameraId, sessions.map(existing => (
+    existing.id === session.id ? { ...existing, syncedRevision: Math.max(existing.syncedRevision, session.revision) } : existing
+  )));
+};
+
+// Send a session's details to the backend; frames only carry the session id
+export const syncSession = async (session: CaptureSession): Promise<void> => {
+  const response = await authorizedFetch(`${getApiBaseUrl()}/timelapse/sessions/${encodeURIComponent(session.id)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      deviceId: getDeviceId(),
+      cameraId: session.cameraId,
+      name: session.name,
+      description: session.description,
+      location: session.location,
+      tags: session.tags,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Server response: ${response.status}`);
+  }
+  markSynced(session);
+};
+
+// Failed retries per camera, so a backend that keeps rejecting sessions is not asked again after every frame
+const syncBackoff = new Map<string, { failures: number; nextAttemptAt: number }>();
+const syncing = new Set<string>();
+
+// Retry sending sessions whose details the backend has not received yet, backing off after failures
+export const syncPendingSessions = async (cameraId: string): Promise<void> => {
+  const backoff = syncBackoff.get(cameraId);
+  if (syncing.has(cameraId) || (backoff && backoff.nextAttemptAt > Date.now())) return;
+
+  syncing.add(cameraId);
+  try {
+    for (const session of loadSessions(cameraId).filter(existing => existing.syncedRevision < existing.revision)) {
+      await syncSession(session);
+    }
+    syncBackoff.delete(cameraId);
+  } catch (err) {
+    const failures = (backoff?.failures ?? 0) + 1;
+    syncBackoff.set(cameraId, { failures, nextAttemptAt: Date.now() + getRetryDelay(failures) });
+    throw err;
+  } finally {
+    syncing.delete(cameraId);
+  }
+};
@@ -0,0 +1,61 @@
+// Local sunrise/sunset calculation based on the NOAA sunrise equation.
+// Accurate to about a minute at non-polar latitudes, which is plenty for capture scheduling.
+
+// Sun altitude that marks the start/end of each kind of daylight
+export type TwilightType = 'sunrise' | 'civil' | 'nautical';
+
+const TWILIGHT_ALTITUDES: Record<TwilightType, number> = {
+  sunrise: -0.833, // Upper limb on the horizon, corrected for refraction
+  civil: -6,
+  nautical: -12,
+};
+
+export const TWILIGHT_OPTIONS: { value: TwilightType; label: string }[] = [
+  { value: 'sunrise', label: 'Sunrise to sunset' },
+  { value: 'civil', label: 'Civil twilight (sun 6° below horizon)' },
+  { value: 'nautical', label: 'Nautical twilight (sun 12° below horizon)' },
+];
+
+export type SolarWindow =
+  | { type: 'normal'; start: Date; end: Date }
+  | { type: 'polar-day' }
+  | { type: 'polar-night' };
+
+const RAD = Math.PI / 180;
+const J2000 = 2451545.0;
+const UNIX_EPOCH_JD = 2440587.5;
+const MS_PER_DAY = 86400000;
+
+const toJulian = (date: Date) => date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+const fromJulian = (julian: number) => new Date((julian - UNIX_EPOCH_JD) * MS_PER_DAY);
+
+// Daylight window for the local calendar day of `date` at the given position (longitude east positive)
+export const getSolarWindow = (date: Date, latitude: number, longitude: number, twilight: TwilightType): SolarWindow => {
+  const localNoon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12);
+  const dayNumber = Math.round(toJulian(localNoon) - J2000 + longitude / 360);
+  const meanSolarTime = dayNumber - longitude / 360;
+
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+  const center = 1.9148 * Math.sin(meanAnomaly * RAD)
+    + 0.02 * Math.sin(2 * meanAnomaly * RAD)
+    + 0.0003 * Math.sin(3 * meanAnomaly * RAD);
+  const eclipticLongitude = (meanAnomaly + center + 180 + 102.9372) % 360;
+  const transit = J2000 + meanSolarTime
+    + 0.0053 * Math.sin(meanAnomaly * RAD)
+    - 0.0069 * Math.sin(2 * eclipticLongitude * RAD);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude * RAD) * Math.sin(23.4397 * RAD));
+  const cosHourAngle = (Math.sin(TWILIGHT_ALTITUDES[twilight] * RAD) - Math.sin(latitude * RAD) * Math.sin(declination))
+    / (Math.cos(latitude * RAD) * Math.cos(declination));
+
+  // The sun never crosses the chosen altitude on this day
+  if (cosHourAngle > 1) return { type: 'polar-night' };
+  if (cosHourAngle < -1) return { type: 'polar-day' };
+
+  const hourAngle = Math.acos(cosHourAngle) / RAD;
+  return {
+    type: 'normal',
+    start: fromJulian(transit - hourAngle / 360),
+    end: fromJulian(transit + hourAngle / 360),
+  };
+};
@@ -0,0 +1,40 @@
+// Full-resolution stills through the ImageCapture API. Video frames are limited to the streaming
+// resolution, while takePhoto() can use the sensor's full still resolution where the browser supports it.
+
+// How a frame was obtained, reported with each upload
+export type CaptureMethod = 'video-frame' | 'image-capture';
+
+// ImageCapture is missing from the DOM typings
+interface PhotoCapabilities {
+  imageWidth?: { max?: number };
+  imageHeight?: { max?: number };
+}
+
+interface ImageCaptureInstance {
+  getPhotoCapabilities: () => Promise<PhotoCapabilities>;
+  takePhoto: (settings?: { imageWidth?: number; imageHeight?: number }) => Promise<Blob>;
+}
+
+type ImageCaptureConstructor = new (track: MediaStreamTrack) => ImageCaptureInstance;
+
+const getImageCapture = (): ImageCaptureConstructor | undefined => {
+  return (window as unknown as { ImageCapture?: ImageCaptureConstructor }).ImageCapture;
+};
+
+export const isStillCaptureSupported = (): boolean => getImageCapture() !== undefined;
+
+// Take a photo at the largest resolution the camera offers, decoded for drawing on a canvas
+export const takeFullResolutionPhoto = async (track: MediaStreamTrack): Promise<ImageBitmap> => {
+  const ImageCapture = getImageCapture();
+  if (!ImageCapture) {
+    throw new Error('ImageCapture is not supported in this browser');
+  }
+
+  const imageCapture = new ImageCapture(track);
+  const capabilities = await imageCapture.getPhotoCapabilities();
+  const photo = await imageCapture.takePhoto({
+    imageWidth: capabilities.imageWidth?.max,
+    imageHeight: capabilities.imageHeight?.max,
+  });
+  return createImageBitmap(photo);
+};
@@ -0,0 +1,93 @@
+// Orientation and crop applied to camera frames, for cameras mounted sideways or upside-down.
+// Frames are rotated first, then flipped, then cropped; regions are fractions of the rotated frame.
+
+// Area of a frame as fractions (0-1) of its width and height
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_FRAME_REGION: Region = { x: 0, y: 0, width: 1, height: 1 };
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface FrameTransform {
+  rotation: Rotation; // Clockwise
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  crop: Region;
+}
+
+export const DEFAULT_TRANSFORM: FrameTransform = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  crop: FULL_FRAME_REGION,
+};
+
+export const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+// Region with its edges clamped to the frame, falling back to the whole frame when it is too small to be useful
+export const normalizeRegion = (region: Region): Region => {
+  const x = Math.min(1, Math.max(0, region.x));
+  const y = Math.min(1, Math.max(0, region.y));
+  const width = Math.min(1 - x, Math.max(0, region.width));
+  const height = Math.min(1 - y, Math.max(0, region.height));
+  if (width < 0.02 || height < 0.02) return FULL_FRAME_REGION;
+  return { x, y, width, height };
+};
+
+export const isFullFrame = (region: Region): boolean => {
+  return region.x === 0 && region.y === 0 && region.width === 1 && region.height === 1;
+};
+
+// Whether the transform changes the frame at all
+export const isIdentityTransform = (transform: FrameTransform): boolean => {
+  return transform.rotation === 0 && !transform.flipHorizontal && !transform.flipVertical && isFullFrame(transform.crop);
+};
+
+// Size of a frame after rotation, before cropping
+export const getOrientedSize = (sourceWidth: number, sourceHeight: number, rotation: Rotation) => {
+  return rotation % 180 === 0
+    ? { width: sourceWidth, height: sourceHeight }
+    : { width: sourceHeight, height: sourceWidth };
+};
+
+// Size of a frame after rotation and cropping
+export const getTransformedSize = (sourceWidth: number, sourceHeight: number, transform: FrameTransform) => {
+  const oriented = getOrientedSize(sourceWidth, sourceHeight, transform.rotation);
+  return {
+    width: Math.max(1, Math.round(oriented.width * transform.crop.width)),
+    height: Math.max(1, Math.round(oriented.height * transform.crop.height))
+  };
+};
+
+// CSS transform showing an element the way the frame will be captured, crop aside
+export const getCssTransform = (transform: FrameTransform): string => {
+  return `scale(${transform.flipHorizontal ? -1 : 1}, ${transform.flipVertical ? -1 : 1}) rotate(${transform.rotation}deg)`;
+};
+
+// Draw a source frame rotated, flipped and cropped, scaled to fill the output size
+export const drawTransformed = (
+  context: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: FrameTransform,
+  outputWidth: number,
+  outputHeight: number
+) => {
+  const oriented = getOrientedSize(sourceWidth, sourceHeight, transform.rotation);
+  const crop = transform.crop;
+
+  context.save();
+  context.scale(outputWidth / (oriented.width * crop.width), outputHeight / (oriented.height * crop.height));
+  context.translate(-crop.x * oriented.width, -crop.y * oriented.height);
+  context.translate(oriented.width / 2, oriented.height / 2);
+  context.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+  context.rotate(transform.rotation * Math.PI / 180);
+  context.drawImage(source, -sourceWidth / 2, -sourceHeight / 2, sourceWidth, sourceHeight);
+  context.restore();
+};
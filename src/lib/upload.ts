@@ -0,0 +1,222 @@
+import type { CapturePayload } from '@/lib/outbox'
+import { blobToDataUrl } from '@/lib/image'
+import { authorizedFetch } from '@/lib/auth'
+import { getDeviceId } from '@/lib/device'
+import { type UploadTarget, getApiBaseUrl, getRuntimeConfig } from '@/lib/runtime-config'
+
+// How captures are encoded on the wire:
+// - json: base64 data URL inside a JSON body (original format)
+// - multipart: multipart/form-data with the image as a file part
+// - binary: raw image bytes with metadata in X-* headers
+export type UploadMode = 'json' | 'multipart' | 'binary';
+
+const UPLOAD_MODES: UploadMode[] = ['json', 'multipart', 'binary'];
+
+// Upload mode from config.json or the build, defaulting to the JSON format older backends expect
+export const getUploadMode = (): UploadMode => {
+  const mode = getRuntimeConfig().uploadMode ?? import.meta.env.VITE_UPLOAD_MODE as UploadMode | undefined;
+  return mode && UPLOAD_MODES.includes(mode) ? mode : 'json';
+};
+
+// File extension for the image part of multipart uploads
+const extensionFor = (type: string): string => {
+  return type.split('/')[1]?.replace('jpeg', 'jpg') || 'bin';
+};
+
+// JSON with non-ASCII characters escaped, as header values must be ASCII
+const toAsciiJson = (value: unknown): string => {
+  return JSON.stringify(value).replace(/[\u0080-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+};
+
+// Build the request body and headers for the configured upload mode
+const buildRequest = async (payload: CapturePayload, mode: UploadMode): Promise<RequestInit> => {
+  switch (mode) {
+    case 'multipart': {
+      const form = new FormData();
+      form.append('cameraId', payload.cameraId);
+      form.append('timestamp', payload.timestamp);
+      if (payload.qualityFlags?.length) form.append('qualityFlags', payload.qualityFlags.join(','));
+      if (payload.captureMethod) form.append('captureMethod', payload.captureMethod);
+      if (payload.bracket) form.append('bracket', JSON.stringify(payload.bracket));
+      if (payload.sessionId) form.append('sessionId', payload.sessionId);
+      if (payload.sequence !== undefined) form.append('sequence', String(payload.sequence));
+      if (payload.metadata) form.append('metadata', JSON.stringify(payload.metadata));
+      form.append('image', payload.image, `${payload.timestamp}.${extensionFor(payload.image.type)}`);
+      // The browser sets the multipart boundary in Content-Type itself
+      return { method: 'POST', body: form };
+    }
+    case 'binary':
+      return {
+        method: 'POST',
+        headers: {
+          'Content-Type': payload.image.type,
+          'X-Camera-Id': payload.cameraId,
+          'X-Timestamp': payload.timestamp,
+          ...(payload.qualityFlags?.length ? { 'X-Quality-Flags': payload.qualityFlags.join(',') } : {}),
+          ...(payload.captureMethod ? { 'X-Capture-Method': payload.captureMethod } : {}),
+          ...(payload.bracket ? { 'X-Bracket': JSON.stringify(payload.bracket) } : {}),
+          ...(payload.sessionId ? { 'X-Session-Id': payload.sessionId } : {}),
+          ...(payload.sequence !== undefined ? { 'X-Sequence': String(payload.sequence) } : {}),
+          ...(payload.metadata ? { 'X-Metadata': toAsciiJson(payload.metadata) } : {}),
+        },
+        body: payload.image,
+      };
+    default:
+      return {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...payload,
+          targets: undefined, // Only matters to this device, left out of the body
+          image: await blobToDataUrl(payload.image),
+        }),
+      };
+  }
+};
+
+// Send a capture to the timelapse backend, throwing on network or server errors
+const uploadToBackend = async (payload: CapturePayload): Promise<void> => {
+  const request = await buildRequest(payload, getUploadMode());
+  const response = await authorizedFetch(`${getApiBaseUrl()}/timelapse/upload`, request, payload.image);
+
+  if (response.status === 401) {
+    throw new Error('Device is not paired with the backend');
+  }
+  if (!response.ok) {
+    throw new Error(`Server response: ${response.status}`);
+  }
+};
+
+// Path of a capture in object storage and WebDAV: camera/date/timestamp.ext
+export const getObjectKey = (payload: CapturePayload): string => {
+  const name = payload.timestamp.replace(/:/g, '-');
+  return `${payload.cameraId}/${payload.timestamp.slice(0, 10)}/${name}.${extensionFor(payload.image.type)}`;
+};
+
+// Ask the backend for a presigned PUT URL and upload the image to it
+const uploadPresigned = async (payload: CapturePayload, presignPath: string): Promise<void> => {
+  const key = getObjectKey(payload);
+  const presignResponse = await authorizedFetch(`${getApiBaseUrl()}${presignPath}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      deviceId: getDeviceId(),
+      cameraId: payload.cameraId,
+      timestamp: payload.timestamp,
+      contentType: payload.image.type,
+      key,
+    }),
+  });
+  if (!presignResponse.ok) {
+    throw new Error(`Presign response: ${presignResponse.status}`);
+  }
+
+  // Headers are part of some signatures, so the ones the backend returns are sent as they are
+  const { url, headers } = await presignResponse.json() as { url?: unknown; headers?: Record<string, string> };
+  if (typeof url !== 'string') {
+    throw new Error('Presign response did not include a URL');
+  }
+
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': payload.image.type, ...headers },
+    body: payload.image,
+  });
+  if (!response.ok) {
+    throw new Error(`Storage response: ${response.status}`);
+  }
+};
+
+// Ask the backend for the headers that authorize this device's requests to a WebDAV target
+const getWebDavHeaders = async (target: Extract<UploadTarget, { type: 'webdav' }>): Promise<Record<string, string>> => {
+  const response = await authorizedFetch(`${getApiBaseUrl()}${target.authPath}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      deviceId: getDeviceId(),
+      targetId: target.id,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`WebDAV auth response: ${response.status}`);
+  }
+
+  const { headers } = await response.json() as { headers?: unknown };
+  if (typeof headers !== 'object' || headers === null) {
+    throw new Error('WebDAV auth response did not include headers');
+  }
+  return headers as Record<string, string>;
+};
+
+// PUT the image into a WebDAV collection, creating the camera and date folders on the way
+const uploadWebDav = async (payload: CapturePayload, target: Extract<UploadTarget, { type: 'webdav' }>): Promise<void> => {
+  const headers = await getWebDavHeaders(target);
+
+  const segments = getObjectKey(payload).split('/');
+  for (let depth = 1; depth < segments.length; depth++) {
+    const folder = `${target.url}/${segments.slice(0, depth).map(encodeURIComponent).join('/')}/`;
+    const response = await fetch(folder, { method: 'MKCOL', headers });
+    // 405 means the folder already exists
+    if (!response.ok && response.status !== 405) {
+      throw new Error(`WebDAV response: ${response.status}`);
+    }
+  }
+
+  const response = await fetch(`${target.url}/${segments.map(encodeURIComponent).join('/')}`, {
+    method: 'PUT',
+    headers: { ...headers, 'Content-Type': payload.image.type },
+    body: payload.image,
+  });
+  if (!response.ok) {
+    throw new Error(`WebDAV response: ${response.status}`);
+  }
+};
+
+const uploadToTarget = (payload: CapturePayload, target: UploadTarget): Promise<void> => {
+  switch (target.type) {
+    case 'presigned':
+      return uploadPresigned(payload, target.presignPath);
+    case 'webdav':
+      return uploadWebDav(payload, target);
+    default:
+      return uploadToBackend(payload);
+  }
+};
+
+// Targets that still need a capture after an upload, with the first error; empty when all succeeded
+export interface UploadOutcome {
+  pendingTargets: string[];
+  error: string | null;
+}
+
+// Send a capture to every configured target it has not reached yet. Targets are independent,
+// so one being down does not hold back the others and only the failed ones are retried.
+export const uploadCapture = async (payload: CapturePayload): Promise<UploadOutcome> => {
+  const targets = getRuntimeConfig().uploadTargets;
+  const pending = payload.targets
+    ? targets.filter(target => payload.targets?.includes(target.id))
+    : targets;
+  // Targets removed from config.json since the capture was queued stay pending, so the frame is
+  // kept until they are configured again rather than dropped as if it had been delivered
+  const unknown = (payload.targets ?? []).filter(id => !targets.some(target => target.id === id));
+
+  const results = await Promise.allSettled(pending.map(target => uploadToTarget(payload, target)));
+  const failed = pending.filter((_, index) => results[index].status === 'rejected');
+  const errors = results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return [];
+    console.error(`Upload to ${pending[index].id} failed:`, result.reason);
+    return [`${pending[index].id}: ${(result.reason as Error).message}`];
+  });
+  unknown.forEach(id => errors.push(`${id}: upload target is not configured`));
+
+  return {
+    pendingTargets: [...failed.map(target => target.id), ...unknown],
+    error: errors.length > 0 ? errors.join('; ') : null,
+  };
+};
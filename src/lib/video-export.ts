@@ -0,0 +1,115 @@
+import type { StoredFrame } from '@/lib/frame-history'
+import { getOutputSize } from '@/lib/output-settings'
+
+// Client-side timelapse encoding: frames are painted onto a canvas whose stream is recorded with MediaRecorder.
+// Recording runs in real time, so an export takes as long as the resulting video plays.
+
+export interface VideoExportOptions {
+  fps: number;
+  targetWidth: number | null; // Downscale to this width, null keeps the frame size
+  timestampOverlay: boolean;
+}
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// Best WebM variant the browser can record, or null when recording is unsupported
+export const getSupportedVideoType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Burn the capture time into the bottom left corner
+const drawTimestamp = (context: CanvasRenderingContext2D, timestamp: string, height: number) => {
+  const fontSize = Math.max(12, Math.round(height / 30));
+  const padding = Math.round(fontSize / 2);
+  const text = new Date(timestamp).toLocaleString();
+
+  context.font = `${fontSize}px sans-serif`;
+  context.textBaseline = 'bottom';
+  const textWidth = context.measureText(text).width;
+
+  context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  context.fillRect(padding, height - fontSize - padding * 3, textWidth + padding * 2, fontSize + padding * 2);
+  context.fillStyle = '#ffffff';
+  context.fillText(text, padding * 2, height - padding * 2);
+  context.textBaseline = 'alphabetic';
+};
+
+// Fit a frame into the video without stretching it, filling the remaining bars with black;
+// frames can differ in size when the camera or its profile changed during the series
+const drawLetterboxed = (context: CanvasRenderingContext2D, image: ImageBitmap, width: number, height: number) => {
+  const scale = Math.min(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+
+  context.fillStyle = '#000000';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Encode frames into a WebM video, reporting progress after each frame
+export const exportTimelapse = async (
+  frames: StoredFrame[],
+  options: VideoExportOptions,
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const mimeType = getSupportedVideoType();
+  if (!mimeType) {
+    throw new Error('Video recording is not supported in this browser');
+  }
+  if (frames.length === 0) {
+    throw new Error('No frames in the selected range');
+  }
+
+  const size = getOutputSize(frames[0].width, frames[0].height, options.targetWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+
+  // Frames are pushed manually so every capture becomes exactly one video frame
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  try {
+    const frameDuration = 1000 / options.fps;
+    for (let index = 0; index < frames.length; index++) {
+      if (signal?.aborted) {
+        throw new Error('Export cancelled');
+      }
+
+      const frame = frames[index];
+      const bitmap = await createImageBitmap(frame.image);
+      drawLetterboxed(context, bitmap, size.width, size.height);
+      bitmap.close();
+      if (options.timestampOverlay) {
+        drawTimestamp(context, frame.timestamp, size.height);
+      }
+
+      track.requestFrame();
+      onProgress(index + 1, frames.length);
+      await sleep(frameDuration);
+    }
+  } finally {
+    recorder.stop();
+    track.stop();
+    await stopped;
+  }
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
@@ -0,0 +1,44 @@
+// Detection of dead camera streams and the backoff for reopening them. A USB camera that is
+// unplugged or crashes leaves its track ended or frozen while the preview still looks attached.
+
+// How often the preview is checked for new frames
+export const STALL_CHECK_INTERVAL_MS = 5 * 1000;
+
+// Time without a new frame, or muted, before a stream counts as failed
+export const STALL_TIMEOUT_MS = 15 * 1000;
+
+const RECOVERY_BASE_DELAY_MS = 2 * 1000;
+const RECOVERY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// A camera that has run this long since its last failure starts the backoff over
+export const RECOVERY_RESET_MS = 10 * 60 * 1000;
+
+// Recoveries of a camera, shown in the status card and reported in the heartbeat
+export interface RecoveryStatus {
+  count: number;
+  lastAt: string | null;
+  lastReason: string | null;
+}
+
+export const EMPTY_RECOVERY_STATUS: RecoveryStatus = {
+  count: 0,
+  lastAt: null,
+  lastReason: null,
+};
+
+// Delay before the given reconnection attempt, doubling from 2 s up to 5 minutes
+export const getRecoveryDelay = (attempt: number): number => {
+  return Math.min(RECOVERY_MAX_DELAY_MS, RECOVERY_BASE_DELAY_MS * 2 ** attempt);
+};
+
+// Whether a stream still has a video track that can deliver frames
+export const isStreamLive = (stream: MediaStream | null): boolean => {
+  const track = stream?.getVideoTracks()[0];
+  return !!track && track.readyState === 'live';
+};
+
+// Whether the selected camera is connected; any camera counts when none is selected
+export const isCameraConnected = async (deviceId: string | null): Promise<boolean> => {
+  const devices = (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'videoinput');
+  return deviceId ? devices.some(device => device.deviceId === deviceId) : devices.length > 0;
+};
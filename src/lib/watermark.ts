@@ -0,0 +1,157 @@
+// Text and logo overlay burned into frames before encoding, so every image carries its capture time and site
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type TimestampFormat = 'locale' | 'iso' | 'date';
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  showTimestamp: boolean;
+  timestampFormat: TimestampFormat;
+  timeZone: string; // IANA name such as Europe/Berlin, empty for the device's zone
+  showTimeZone: boolean;
+  label: string; // Project or location name shown under the timestamp
+  logo: string | null; // Data URL of the logo image
+  position: WatermarkPosition;
+  fontSize: number; // Percent of the frame height
+  textColor: string;
+  background: boolean; // Draw a translucent box behind the text for legibility
+}
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: false,
+  showTimestamp: true,
+  timestampFormat: 'iso',
+  timeZone: '',
+  showTimeZone: true,
+  label: '',
+  logo: null,
+  position: 'bottom-left',
+  fontSize: 3,
+  textColor: '#ffffff',
+  background: true,
+};
+
+export const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+export const TIMESTAMP_FORMATS: { value: TimestampFormat; label: string }[] = [
+  { value: 'iso', label: '2024-05-31 14:05:09' },
+  { value: 'locale', label: 'Browser locale' },
+  { value: 'date', label: 'Date only' },
+];
+
+// Logos are stored with the settings, so keep them small
+export const MAX_LOGO_BYTES = 200 * 1024;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone) return true;
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Capture time as shown in the overlay, in the configured zone
+export const formatTimestamp = (date: Date, format: TimestampFormat, timeZone: string, showTimeZone: boolean): string => {
+  const zone = isValidTimeZone(timeZone) && timeZone ? timeZone : undefined;
+  const zoneName = showTimeZone ? 'short' as const : undefined;
+
+  if (format === 'locale') {
+    return date.toLocaleString(undefined, { timeZone: zone, timeZoneName: zoneName });
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    timeZoneName: zoneName,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+  const day = `${part('year')}-${part('month')}-${part('day')}`;
+  const text = format === 'date' ? day : `${day} ${part('hour')}:${part('minute')}:${part('second')}`;
+  return showTimeZone ? `${text} ${part('timeZoneName')}` : text;
+};
+
+// Load a data URL into an image that can be drawn on a canvas
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+};
+
+// Draw the overlay onto a canvas of the given size
+export const drawWatermark = (
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  settings: WatermarkSettings,
+  capturedAt: Date,
+  logo: HTMLImageElement | null
+) => {
+  const lines: string[] = [];
+  if (settings.showTimestamp) {
+    lines.push(formatTimestamp(capturedAt, settings.timestampFormat, settings.timeZone, settings.showTimeZone));
+  }
+  if (settings.label.trim()) {
+    lines.push(settings.label.trim());
+  }
+  if (lines.length === 0 && !logo) return;
+
+  const fontSize = Math.max(10, Math.round(height * settings.fontSize / 100));
+  const lineHeight = Math.round(fontSize * 1.25);
+  const padding = Math.round(fontSize / 2);
+  const margin = padding;
+
+  context.save();
+  context.font = `${fontSize}px sans-serif`;
+  context.textBaseline = 'top';
+
+  // The logo is scaled to the height of the text block, or two lines when there is no text
+  const textWidth = Math.max(0, ...lines.map(line => context.measureText(line).width));
+  const textHeight = lines.length * lineHeight;
+  const logoHeight = logo ? Math.max(textHeight, lineHeight * 2) : 0;
+  const logoWidth = logo ? logo.naturalWidth * logoHeight / logo.naturalHeight : 0;
+  const gap = logo && lines.length > 0 ? padding : 0;
+
+  const boxWidth = logoWidth + gap + textWidth + padding * 2;
+  const boxHeight = Math.max(logoHeight, textHeight) + padding * 2;
+  const left = settings.position.endsWith('left') ? margin : width - boxWidth - margin;
+  const top = settings.position.startsWith('top') ? margin : height - boxHeight - margin;
+
+  if (settings.background) {
+    context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    context.fillRect(left, top, boxWidth, boxHeight);
+  }
+  if (logo) {
+    context.drawImage(logo, left + padding, top + padding, logoWidth, logoHeight);
+  }
+
+  // Without a background box a dark shadow keeps the text readable on bright frames
+  if (!settings.background) {
+    context.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    context.shadowBlur = Math.max(2, fontSize / 6);
+  }
+  context.fillStyle = settings.textColor;
+  const textLeft = left + padding + logoWidth + gap;
+  const textTop = top + padding + (boxHeight - padding * 2 - textHeight) / 2;
+  lines.forEach((line, index) => {
+    context.fillText(line, textLeft, textTop + index * lineHeight);
+  });
+  context.restore();
+};
@@ -2,9 +2,13 @@
 
 interface ImportMetaEnv {
     readonly VITE_API_BASE_URL: string;
+    readonly VITE_UPLOAD_MODE?: 'json' | 'multipart' | 'binary';
     // more env variables...
 }
 
+// Version from package.json, injected at build time
+declare const __APP_VERSION__: string;
+
 interface ImportMeta {
     readonly env: ImportMetaEnv;
 }